@@ -0,0 +1,57 @@
+/**
+ * Example: Run the mock Eviqo cloud server
+ *
+ * Starts a local stand-in for the Eviqo cloud that accepts the mock
+ * credentials, serves one charger and streams made-up voltage and power
+ * readings every few seconds.
+ *
+ * Usage:
+ *   ts-node examples/mock-server.ts
+ *
+ * Optional environment variables:
+ *   MOCK_PORT - Port to listen on (default: 8080)
+ *   EVIQO_EMAIL - Account email to accept (default: user@example.com)
+ *   EVIQO_PASSWORD - Account password to accept (default: password123)
+ */
+
+import * as dotenv from 'dotenv';
+import { EviqoMockServer, MOCK_EMAIL, MOCK_PASSWORD } from '../src';
+
+// Load environment variables
+dotenv.config();
+
+async function main(): Promise<void> {
+  const server = new EviqoMockServer({
+    host: '0.0.0.0',
+    port: parseInt(process.env.MOCK_PORT || '8080', 10),
+    email: process.env.EVIQO_EMAIL || MOCK_EMAIL,
+    password: process.env.EVIQO_PASSWORD || MOCK_PASSWORD,
+  });
+
+  server.on('command', (command) => {
+    console.log(
+      `Command: device=${command.deviceId} pin=${command.pin} value=${command.value}`
+    );
+  });
+
+  await server.start();
+  console.log(`Mock Eviqo server on port ${server.port}`);
+  console.log(`  Login page: http://localhost:${server.port}/dashboard/login`);
+  console.log(`  Websocket:  ws://localhost:${server.port}/dashws`);
+
+  // Stream readings forever
+  for (;;) {
+    const voltage = (238 + Math.random() * 6).toFixed(2);
+    const power = (Math.random() * 11).toFixed(2);
+    await server.playScript([
+      { delay: 5000, deviceId: 51627, pin: 5, value: voltage },
+      { delay: 0, deviceId: 51627, pin: 7, value: power },
+    ]);
+  }
+}
+
+// Run main function
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
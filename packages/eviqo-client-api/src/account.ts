@@ -0,0 +1,74 @@
+/**
+ * Account information
+ *
+ * A flat, typed view of the EviqoUserModel returned at login: who is
+ * logged in, the organization and role, how many organizations are shared
+ * with the account and which version the cloud backend runs.
+ */
+
+import { EviqoUserModel } from './models/user';
+
+/**
+ * Organization the account belongs to
+ */
+export interface OrganizationInfo {
+  id: number;
+  name: string;
+  type: string;
+  timezone: string;
+  /** Parent organization, if any */
+  parentId: number | null;
+  parentName: string | null;
+  deviceCount: number;
+  userCount: number;
+  /** Whether the organization is shared with the account rather than owned */
+  isShared: boolean;
+}
+
+/**
+ * Account information from the login reply
+ */
+export interface AccountInfo {
+  userId: number;
+  email: string;
+  timezone: string;
+  locale: string;
+  organization: OrganizationInfo;
+  role: { id: number; name: string };
+  /** Number of other organizations shared with the account */
+  sharedOrgsCount: number;
+  /** Version of the cloud backend */
+  serverVersion: string;
+  /** Application name configured on the backend */
+  appName: string;
+}
+
+/**
+ * Build the account information of a login reply
+ *
+ * Missing blocks (organization, role, settings) are filled with empty values.
+ */
+export function accountInfoFromUser(model: EviqoUserModel): AccountInfo {
+  const organization = model.organization;
+  return {
+    userId: model.user?.id ?? 0,
+    email: model.user?.email ?? '',
+    timezone: model.user?.tz ?? '',
+    locale: model.user?.locale ?? '',
+    organization: {
+      id: organization?.id ?? 0,
+      name: organization?.name ?? '',
+      type: organization?.type ?? '',
+      timezone: organization?.tz ?? '',
+      parentId: organization?.parentId ?? null,
+      parentName: organization?.parentOrgName ?? null,
+      deviceCount: organization?.deviceCount ?? 0,
+      userCount: organization?.userCount ?? 0,
+      isShared: organization?.isShared ?? false,
+    },
+    role: { id: model.role?.id ?? 0, name: model.role?.name ?? '' },
+    sharedOrgsCount: model.sharedOrgsCount ?? 0,
+    serverVersion: model.serverVersion ?? '',
+    appName: model.generalSettings?.appName ?? '',
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * High-level control of an Eviqo charger
+ *
+ * Wraps the pin-level widget protocol of an Eviqo EV charger: the status
+ * widget, the pin 15 control sequences and the pin 3 current limit.
+ */
+
+import { EviqoWebsocketConnection } from './client';
+import { ChargerStateError, ValidationError } from './errors';
+import { Visualization1 } from './models/device-page';
+import { CommandConfirmedEvent } from './models/events';
+import { logger } from './utils/logger';
+
+/**
+ * Charger status reported by the Status widget
+ */
+export enum ChargerStatus {
+  UNPLUGGED = 0,
+  PLUGGED = 1,
+  CHARGING = 2,
+  STOPPED = 3,
+}
+
+const STATUS_LABELS: Record<ChargerStatus, string> = {
+  [ChargerStatus.UNPLUGGED]: 'unplugged',
+  [ChargerStatus.PLUGGED]: 'plugged',
+  [ChargerStatus.CHARGING]: 'charging',
+  [ChargerStatus.STOPPED]: 'stopped',
+};
+
+/**
+ * Pin receiving the charging control sequences
+ */
+export const CHARGER_CONTROL_PIN = '15';
+
+/**
+ * Pin receiving the current limit (A)
+ */
+export const CHARGER_CURRENT_PIN = '3';
+
+/**
+ * Delay between the values of a control sequence (ms)
+ */
+export const DEFAULT_SEQUENCE_DELAY = 25;
+
+// Values written to the control pin, in order
+const START_SEQUENCE = ['1', '0'];
+const STOP_SEQUENCE = ['2', '0'];
+const RESUME_SEQUENCE = ['3', '0', '1', '0'];
+
+const STATUS_WIDGET = 'Status';
+const CURRENT_WIDGET = 'Current';
+const CURRENT_MAX_WIDGET = 'Current max';
+
+/**
+ * Charger options
+ */
+export interface ChargerOptions {
+  /** Delay between the values of a control sequence in ms (default: 25) */
+  sequenceDelay?: number;
+}
+
+/**
+ * Parse a raw Status widget value
+ *
+ * @param value - Raw widget value (e.g. "2")
+ * @returns Charger status, or null if the value is not a known status
+ */
+export function parseChargerStatus(value: string | undefined): ChargerStatus | null {
+  const status = Number(value);
+  return value !== undefined && value !== '' && status in STATUS_LABELS
+    ? (status as ChargerStatus)
+    : null;
+}
+
+/**
+ * Human-readable label for a charger status (e.g. `charging`)
+ *
+ * @param value - Charger status or raw Status widget value
+ * @returns Label, or the raw value if it is not a known status
+ */
+export function chargerStatusLabel(value: ChargerStatus | string): string {
+  const status = typeof value === 'string' ? parseChargerStatus(value) : value;
+  return status === null ? String(value) : STATUS_LABELS[status];
+}
+
+/**
+ * Control a single Eviqo charger
+ *
+ * Reads the charger's widget values from the client's live state, so the
+ * device page must have been fetched (requestChargingStatus) before the
+ * charger is used.
+ *
+ * @example
+ * ```typescript
+ * const charger = new EviqoCharger(client, 51627);
+ * if (charger.getStatus() === ChargerStatus.PLUGGED) {
+ *   await charger.setCurrentLimit(16);
+ *   await charger.startCharging();
+ * }
+ * ```
+ */
+export class EviqoCharger {
+  readonly deviceId: string;
+  private client: EviqoWebsocketConnection;
+  private sequenceDelay: number;
+
+  constructor(
+    client: EviqoWebsocketConnection,
+    deviceId: number | string,
+    options: ChargerOptions = {}
+  ) {
+    this.client = client;
+    this.deviceId = String(deviceId);
+    this.sequenceDelay = options.sequenceDelay ?? DEFAULT_SEQUENCE_DELAY;
+  }
+
+  /**
+   * Current charger status
+   *
+   * @returns Status, or null if the charger has not reported a known status
+   */
+  getStatus(): ChargerStatus | null {
+    return parseChargerStatus(this.client.getValue(this.deviceId, STATUS_WIDGET));
+  }
+
+  /**
+   * Allowed current limit range in amps
+   *
+   * The upper bound is the charger's `Current max` value, falling back to
+   * the maximum configured on the Current widget.
+   */
+  getCurrentLimitRange(): { min: number; max: number | null; step: number } {
+    const current = this.client
+      .getDeviceRegistry()
+      .getStreamByName(this.deviceId, CURRENT_WIDGET);
+    const visualization = current?.visualization as Visualization1 | undefined;
+    const reportedMax = Number(this.client.getValue(this.deviceId, CURRENT_MAX_WIDGET));
+    const max = Number.isFinite(reportedMax) && reportedMax > 0
+      ? reportedMax
+      : visualization?.max ?? null;
+
+    return {
+      min: visualization?.min ?? 0,
+      max,
+      step: visualization?.step ?? 1,
+    };
+  }
+
+  /**
+   * Start charging
+   *
+   * Sends 1,0 when a vehicle is plugged in, or 3,0,1,0 to resume a
+   * stopped session.
+   *
+   * @returns False if the charger was already charging
+   * @throws ChargerStateError if no vehicle is plugged in or the status is unknown
+   */
+  async startCharging(): Promise<boolean> {
+    const status = this.getStatus();
+    switch (status) {
+      case ChargerStatus.CHARGING:
+        logger.info(`Charger ${this.deviceId} is already charging`);
+        return false;
+      case ChargerStatus.PLUGGED:
+        await this.sendSequence(START_SEQUENCE);
+        return true;
+      case ChargerStatus.STOPPED:
+        await this.sendSequence(RESUME_SEQUENCE);
+        return true;
+      case ChargerStatus.UNPLUGGED:
+        throw new ChargerStateError(`Cannot start charging: charger ${this.deviceId} is unplugged`);
+      default:
+        throw new ChargerStateError(
+          `Cannot start charging: status of charger ${this.deviceId} is unknown`
+        );
+    }
+  }
+
+  /**
+   * Stop charging
+   *
+   * Sends 2,0 when the charger is charging.
+   *
+   * @returns False if the charger was not charging
+   * @throws ChargerStateError if the status is unknown
+   */
+  async stopCharging(): Promise<boolean> {
+    const status = this.getStatus();
+    if (status === null) {
+      throw new ChargerStateError(
+        `Cannot stop charging: status of charger ${this.deviceId} is unknown`
+      );
+    }
+    if (status !== ChargerStatus.CHARGING) {
+      logger.info(`Charger ${this.deviceId} is not charging (${chargerStatusLabel(status)})`);
+      return false;
+    }
+
+    await this.sendSequence(STOP_SEQUENCE);
+    return true;
+  }
+
+  /**
+   * Set the charging current limit
+   *
+   * @param amps - Limit in amps, within getCurrentLimitRange()
+   * @returns The confirmed command
+   * @throws ValidationError if the value is out of range or off-step
+   */
+  async setCurrentLimit(amps: number): Promise<CommandConfirmedEvent> {
+    const { min, max, step } = this.getCurrentLimitRange();
+
+    if (!Number.isFinite(amps)) {
+      throw new ValidationError(`Current limit must be a number, got ${amps}`);
+    }
+    if (amps < min || (max !== null && amps > max)) {
+      throw new ValidationError(
+        `Current limit ${amps}A is outside ${min}-${max ?? '?'}A for charger ${this.deviceId}`
+      );
+    }
+    if (step > 0 && !Number.isInteger(Number(((amps - min) / step).toFixed(6)))) {
+      throw new ValidationError(`Current limit ${amps}A is not a multiple of ${step}A`);
+    }
+
+    return this.client.sendCommand(this.deviceId, CHARGER_CURRENT_PIN, String(amps));
+  }
+
+  /**
+   * Write a control sequence, then wait for every value to be confirmed
+   *
+   * Values are written the sequence delay apart, as the charger expects,
+   * without waiting for each confirmation in between. The trailing reset is
+   * always written, so a failed step does not leave the control pin
+   * mid-command.
+   *
+   * @throws The first confirmation failure, once the whole sequence is written
+   */
+  private async sendSequence(values: string[]): Promise<void> {
+    logger.info(`Charger ${this.deviceId}: sending control sequence ${values.join(',')}`);
+    const confirmations: Promise<CommandConfirmedEvent>[] = [];
+    const send = (value: string) => {
+      const confirmation = this.client.sendCommand(this.deviceId, CHARGER_CONTROL_PIN, value);
+      // Reported below, once the reset has been written
+      confirmation.catch(() => undefined);
+      confirmations.push(confirmation);
+    };
+
+    try {
+      for (const value of values.slice(0, -1)) {
+        send(value);
+        await new Promise((resolve) => setTimeout(resolve, this.sequenceDelay));
+      }
+    } finally {
+      send(values[values.length - 1]);
+    }
+    await Promise.all(confirmations);
+  }
+}
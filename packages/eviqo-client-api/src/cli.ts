@@ -0,0 +1,184 @@
+#!/usr/bin/env node
+/**
+ * Eviqo client CLI
+ *
+ * Command-line tools built on the client library.
+ */
+
+import { writeFileSync } from 'fs';
+import * as dotenv from 'dotenv';
+import { EviqoWebsocketConnection, WS_URL } from './client';
+import { credentialsFromEnv } from './credentials';
+import {
+  ChargingSession,
+  SessionTracker,
+  sessionsToCsv,
+  sessionsToJson,
+} from './session-tracker';
+import { logger, LogLevel } from './utils/logger';
+
+// Load environment variables from .env file
+dotenv.config();
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Print usage information
+ */
+function printUsage(): void {
+  console.log(`
+Eviqo CLI
+
+Usage:
+  eviqo sessions [options]
+
+Commands:
+  sessions            Export charging sessions rebuilt from the charger history
+
+                      EXPERIMENTAL: sessions are rebuilt with the server's
+                      datastream history request, which has not been checked
+                      against the Eviqo cloud. The export may be empty or
+                      incomplete. To record sessions reliably, follow them
+                      live with SessionTracker.start() (see the README).
+
+Options:
+  --from <date>       Start of the range (ISO date, default: 30 days ago)
+  --to <date>         End of the range (ISO date, default: now)
+  --device <id>       Only export this device (default: every device)
+  --format <format>   csv (default) or json
+  --output <file>     Write to a file instead of stdout
+  --debug             Enable debug logging (always written to stderr)
+  --help, -h          Show this help message
+
+Environment Variables:
+  EVIQO_EMAIL               Eviqo account email (required)
+  EVIQO_PASSWORD            Eviqo account password (required unless one of the below is set)
+  EVIQO_PASSWORD_FILE       File holding the password (Docker/Kubernetes secret)
+  EVIQO_PASSWORD_HASH       Pre-computed login hash instead of the password
+  EVIQO_PASSWORD_HASH_FILE  File holding the login hash
+  EVIQO_WS_URL              Eviqo websocket URL (default: ${WS_URL})
+
+Examples:
+  # Sessions of the last 30 days as CSV
+  eviqo sessions > sessions.csv
+
+  # One device, January, as JSON
+  eviqo sessions --device 51627 --from 2025-01-01 --to 2025-02-01 --format json
+`);
+}
+
+/**
+ * Value of a `--name value` option
+ */
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function parseDate(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${name} date: ${value}`);
+  }
+  return time;
+}
+
+/**
+ * Export charging sessions
+ */
+async function exportSessions(args: string[]): Promise<void> {
+  const credentials = credentialsFromEnv();
+  if (!credentials) {
+    throw new Error(
+      'EVIQO_EMAIL and EVIQO_PASSWORD (or EVIQO_PASSWORD_FILE, EVIQO_PASSWORD_HASH, ' +
+        'EVIQO_PASSWORD_HASH_FILE) environment variables are required'
+    );
+  }
+
+  const to = parseDate(option(args, '--to'), Date.now(), '--to');
+  const from = parseDate(option(args, '--from'), to - 30 * DAY, '--from');
+  const format = option(args, '--format') ?? 'csv';
+  if (format !== 'csv' && format !== 'json') {
+    throw new Error(`Unknown format: ${format}`);
+  }
+  const device = option(args, '--device');
+
+  const client = new EviqoWebsocketConnection(
+    process.env.EVIQO_WS_URL || WS_URL,
+    null,
+    null,
+    null,
+    { credentials }
+  );
+  if (!(await client.connect())) {
+    throw new Error('Failed to connect to Eviqo API');
+  }
+
+  let sessions: ChargingSession[] = [];
+  try {
+    await client.login();
+    const devicePages = await client.subscribeAll();
+    const tracker = new SessionTracker(client);
+
+    for (const page of devicePages) {
+      if (device !== undefined && String(page.id) !== device) {
+        continue;
+      }
+      logger.info(`Rebuilding sessions of "${page.name}" (ID: ${page.id})`);
+      await tracker.backfill(page.id, { from, to });
+    }
+    sessions = tracker.getSessions();
+  } finally {
+    client.disconnect();
+  }
+
+  const output = format === 'json' ? sessionsToJson(sessions) : sessionsToCsv(sessions);
+  const file = option(args, '--output');
+  if (file) {
+    writeFileSync(file, output);
+    logger.info(`Wrote ${sessions.length} session(s) to ${file}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    printUsage();
+    process.exit(0);
+  }
+
+  // Keep stdout clean when the export is written there
+  if (!args.includes('--output')) {
+    logger.setStderr(true);
+  }
+  if (args.includes('--debug')) {
+    logger.setLevel(LogLevel.DEBUG);
+  } else if (!args.includes('--output')) {
+    logger.setLevel(LogLevel.WARN);
+  }
+
+  switch (args[0]) {
+    case 'sessions':
+      await exportSessions(args.slice(1));
+      break;
+    default:
+      console.error(`Unknown command: ${args[0]}`);
+      console.error('\nRun with --help for usage information.');
+      process.exit(1);
+  }
+}
+
+// Run main function
+main().catch((error) => {
+  console.error(`Error: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -7,25 +7,219 @@
 
 import { EventEmitter } from 'events';
 import WebSocket from 'ws';
-import { calculateHash } from './utils/hash';
 import { logger } from './utils/logger';
+import { createBinaryMessage, parseBinaryMessage } from './utils/protocol';
 import {
-  createBinaryMessage,
-  MessageHeader,
-  parseBinaryMessage,
-} from './utils/protocol';
+  DEFAULT_REQUEST_TIMEOUT,
+  RequestDispatcher,
+} from './utils/dispatcher';
+import {
+  Command,
+  commandName,
+  DeviceQueryRequest,
+  encodeMessage,
+  EviqoMessage,
+  fixedMessageId,
+  KnownMessage,
+  OutgoingMessage,
+  PinWrite,
+  ResponseCode,
+} from './utils/codec';
+import {
+  AuthenticationError,
+  ConnectionClosedError,
+  ResponseError,
+  TimeoutError,
+  ValidationError,
+} from './errors';
+import { DeviceRegistry } from './device-registry';
+import {
+  DevicePageDiff,
+  diffDevicePages,
+  hasPageChanges,
+} from './page-diff';
+import { DeviceSnapshot, DeviceStateStore } from './state-store';
+import { validateStreamValue } from './datastream';
+import { CredentialProvider, PasswordCredentials } from './credentials';
+import {
+  MemorySessionStore,
+  SessionStore,
+  sessionCookieHeader,
+  StoredSession,
+} from './session-store';
 import {
   DeviceDocs,
+  DeviceQueryOptions,
   EviqoDeviceQueryModel,
 } from './models/device-query';
+import { EviqoDevicePageModel, TabPage } from './models/device-page';
+import { EviqoUserModel, Organization } from './models/user';
+import { AccountInfo, accountInfoFromUser } from './account';
 import {
-  DisplayDataStream,
-  EviqoDevicePageModel,
-} from './models/device-page';
-import { EviqoUserModel } from './models/user';
+  DatastreamHistory,
+  EviqoGraphDataModel,
+  HistoryOptions,
+} from './models/history';
+import {
+  CommandConfirmedEvent,
+  EviqoClientEvents,
+} from './models/events';
+import { EviqoClientOptions } from './models/options';
+import {
+  computeBackoffDelay,
+  ReconnectPolicy,
+  resolveReconnectPolicy,
+} from './utils/backoff';
 
 export const WS_URL = 'wss://app.eviqo.io/dashws';
 
+export const DEFAULT_USER_AGENT =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) ' +
+  'AppleWebKit/537.36 (KHTML, like Gecko) ' +
+  'Chrome/140.0.0.0 Safari/537.36';
+export const DEFAULT_CLIENT_VERSION = '0.98.2';
+export const DEFAULT_LOCALE = 'en_US';
+
+/**
+ * Derive the HTTP origin serving a websocket URL
+ *
+ * @param url - Websocket URL (e.g. wss://app.eviqo.io/dashws)
+ * @returns Origin (e.g. https://app.eviqo.io)
+ */
+export function deriveHttpOrigin(url: string): string {
+  const parsed = new URL(url);
+  const protocol = parsed.protocol === 'wss:' ? 'https:' : 'http:';
+  return `${protocol}//${parsed.host}`;
+}
+
+/**
+ * Number of devices requested per device query page
+ */
+export const DEFAULT_DEVICE_PAGE_SIZE = 17;
+
+/**
+ * Time to wait for a widget command to be confirmed (ms)
+ */
+export const DEFAULT_COMMAND_TIMEOUT = 5000;
+
+/**
+ * Interval between keepalive frames (ms)
+ */
+export const KEEPALIVE_INTERVAL = 15000;
+
+/**
+ * Narrow a reply to the expected command
+ *
+ * @throws Error if the server answered with anything else
+ */
+function expectReply<C extends KnownMessage['command']>(
+  reply: EviqoMessage,
+  command: C,
+  description: string
+): Extract<KnownMessage, { command: C }> {
+  if (reply.command !== command) {
+    const detail =
+      reply.command === Command.RESPONSE ? ` (code ${reply.code})` : '';
+    throw new Error(
+      `Unexpected reply to ${description}: ${commandName(reply.command)}${detail}`
+    );
+  }
+  return reply as Extract<KnownMessage, { command: C }>;
+}
+
+/**
+ * Body of a DEVICE_QUERY request for one page of results
+ */
+function deviceQueryBody(
+  options: DeviceQueryOptions,
+  offset: number,
+  limit: number
+): DeviceQueryRequest {
+  return {
+    docType: 'DEVICE',
+    mode: options.mode ?? 'MATCH_ALL',
+    viewType: 'LIST',
+    filters: options.filters ?? [
+      {
+        type: 'SUB_SEGMENT',
+        filters: [],
+        mode: 'MATCH_ANY',
+        isCurrent: true,
+      },
+    ],
+    offset,
+    limit,
+    order: options.order ?? 'ASC',
+    sortBy: options.sortBy ?? 'Name',
+  };
+}
+
+/**
+ * Find a tab by id or name
+ *
+ * @param tab - Tab id or name, or undefined for the first tab
+ */
+function findTabPage(
+  tabPages: TabPage[],
+  tab: number | string | undefined
+): TabPage | undefined {
+  if (tab === undefined) {
+    return tabPages[0];
+  }
+  return (
+    tabPages.find((page) => String(page.id) === String(tab)) ??
+    tabPages.find((page) => page.name === tab)
+  );
+}
+
+/**
+ * Whether a reported datastream value is the value that was written
+ *
+ * Numeric values are compared as numbers, so "16" matches "16.0".
+ */
+function sameValue(reported: string, written: string): boolean {
+  if (reported === written) {
+    return true;
+  }
+  const a = Number(reported);
+  const b = Number(written);
+  return reported.trim() !== '' && Number.isFinite(a) && a === b;
+}
+
+/**
+ * A command waiting for the device to report its value
+ */
+interface PendingWrite {
+  value: string;
+  confirm: () => void;
+}
+
+/**
+ * Typed event signatures for EviqoWebsocketConnection
+ */
+export interface EviqoWebsocketConnection {
+  on<E extends keyof EviqoClientEvents>(
+    event: E,
+    listener: EviqoClientEvents[E]
+  ): this;
+  once<E extends keyof EviqoClientEvents>(
+    event: E,
+    listener: EviqoClientEvents[E]
+  ): this;
+  off<E extends keyof EviqoClientEvents>(
+    event: E,
+    listener: EviqoClientEvents[E]
+  ): this;
+  removeListener<E extends keyof EviqoClientEvents>(
+    event: E,
+    listener: EviqoClientEvents[E]
+  ): this;
+  emit<E extends keyof EviqoClientEvents>(
+    event: E,
+    ...args: Parameters<EviqoClientEvents[E]>
+  ): boolean;
+}
+
 /**
  * Eviqo WebSocket Connection Client
  *
@@ -44,134 +238,356 @@ export const WS_URL = 'wss://app.eviqo.io/dashws';
  */
 export class EviqoWebsocketConnection extends EventEmitter {
   private url: string;
+  private loginUrl: string;
+  private origin: string;
+  private userAgent: string;
+  private clientVersion: string;
+  private locale: string;
+  private commandTimeout: number;
+  private pageRefreshInterval: number;
+  // Account email; from the constructor or the last login
   private username: string | null;
-  private password: string | null;
+  // Supplies the email and password hash at login
+  private credentials: CredentialProvider | null;
   private ws: WebSocket | null = null;
   private user: EviqoUserModel | null = null;
-  private devices: DeviceDocs[] = [];
-  private devicePages: EviqoDevicePageModel[] = [];
-  // Message counter shared across all outbound messages, starting at 0
-  private messageCounter = 0;
-  private widgetIdMap: Map<number, Map<string, DisplayDataStream>> = new Map();
-  private widgetNameMap: Map<number, Map<string, DisplayDataStream>> =
-    new Map();
-  // Map from pin number to widget stream (for widget update lookup)
-  private widgetPinMap: Map<number, Map<string, DisplayDataStream>> = new Map();
-  private keepaliveTimer: Date = new Date();
+  // Docs, pages and widget maps of every known device, keyed by deviceId
+  private registry = new DeviceRegistry();
+  // Correlates replies with requests via the byte4 message id
+  private dispatcher = new RequestDispatcher();
+  // Tab pages learned from device pages, keyed by templateId
+  private tabPagesByTemplate: Map<string, TabPage[]> = new Map();
+  // Set by subscribeAll() so reconnects also pick up new devices
+  private subscribedAll = false;
+  // Latest datastream values, updated from widget updates
+  private state = new DeviceStateStore();
+  // Commands waiting for a widget update with their value, keyed by deviceId:pin
+  private pendingWrites: Map<string, Set<PendingWrite>> = new Map();
+  private keepaliveTimer: NodeJS.Timeout | null = null;
+  private pageRefreshTimer: NodeJS.Timeout | null = null;
+  // Set while refreshDevicePages() runs so timer ticks do not overlap
+  private refreshing = false;
+  private reconnectPolicy: ReconnectPolicy;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  // Consecutive failed reconnect attempts, reset on success
+  private reconnectAttempts = 0;
+  private resuming = false;
+  // Set by disconnect() so the resulting close does not trigger a reconnect
+  private closeRequested = false;
+  private sessionStore: SessionStore;
+  // Session passed to the constructor, tried when the store has none
+  private initialSession: StoredSession | null;
+  // Cookie header of the current connection
+  private sessionCookie: string | null = null;
+  // Set by connect() when it reused a stored session; login() checks it
+  private resumedSession: StoredSession | null = null;
 
   constructor(
     url: string,
-    _sessionId: string | null = null,
+    sessionId: string | null = null,
     username: string | null = null,
-    password: string | null = null
+    password: string | null = null,
+    options: EviqoClientOptions = {}
   ) {
     super();
     this.url = url;
-    // sessionId is stored for potential future use
+    this.origin = options.origin ?? deriveHttpOrigin(url);
+    this.loginUrl =
+      options.loginUrl ?? `${deriveHttpOrigin(url)}/dashboard/login`;
+    this.userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+    this.clientVersion = options.clientVersion ?? DEFAULT_CLIENT_VERSION;
+    this.locale = options.locale ?? DEFAULT_LOCALE;
+    this.commandTimeout = options.commandTimeout ?? DEFAULT_COMMAND_TIMEOUT;
+    this.pageRefreshInterval = options.pageRefreshInterval ?? 0;
+    this.sessionStore = options.sessionStore ?? new MemorySessionStore();
+    this.initialSession = sessionId
+      ? {
+          cookie: sessionCookieHeader(sessionId),
+          email: null,
+          user: null,
+          savedAt: new Date().toISOString(),
+        }
+      : null;
     this.username = username;
-    this.password = password;
+    this.credentials =
+      options.credentials ??
+      (username !== null && password !== null
+        ? new PasswordCredentials(username, password)
+        : null);
+    this.reconnectPolicy = resolveReconnectPolicy(options.reconnect);
   }
 
   /**
    * Connect to WebSocket with session cookie
    *
+   * A stored session (from the session store or the constructor's session
+   * ID) is tried first; if the server rejects it, it is forgotten and a
+   * fresh cookie is fetched from the login page.
+   *
    * @returns True if connection successful, false otherwise
    */
   async connect(): Promise<boolean> {
+    logger.debug(`Connecting to ${this.url}...`);
+    this.resumedSession = null;
+
+    const stored = await this.loadSession();
+    if (stored) {
+      try {
+        await this.openWebSocket(stored.cookie);
+        this.sessionCookie = stored.cookie;
+        this.resumedSession = stored;
+        return true;
+      } catch (error) {
+        logger.info(`Stored session rejected, fetching a new one: ${error}`);
+        // Keep the failed socket's close from scheduling a reconnect
+        this.ws = null;
+        await this.forgetSession();
+      }
+    }
+
+    let cookieHeader: string;
     try {
-      logger.debug(`Connecting to ${this.url}...`);
-
-      // Make HTTP request to login page to capture cookies
-      const loginUrl = 'https://app.eviqo.io/dashboard/login';
-      const response = await fetch(loginUrl);
-
-      // Parse cookies from response
-      let cookieHeader = '';
-      const setCookieHeader = response.headers.get('set-cookie');
-      if (setCookieHeader) {
-        const cookieParts: string[] = [];
-        const cookies = setCookieHeader.split(', ');
-        for (const cookie of cookies) {
-          const cookiePair = cookie.split(';')[0];
-          cookieParts.push(cookiePair);
-          const cookieName = cookiePair.split('=')[0];
-          logger.debug(`Setting cookie ${cookieName}`);
-        }
-        cookieHeader = cookieParts.join('; ');
+      cookieHeader = await this.fetchSessionCookie();
+    } catch (error) {
+      logger.error(`Connection failed: ${error}`);
+      return false;
+    }
+
+    await this.openWebSocket(cookieHeader);
+    this.sessionCookie = cookieHeader;
+    return true;
+  }
+
+  /**
+   * Fetch the login page and return its cookies as a Cookie header
+   */
+  private async fetchSessionCookie(): Promise<string> {
+    // Make HTTP request to login page to capture cookies
+    const response = await fetch(this.loginUrl);
+
+    // Parse cookies from response
+    let cookieHeader = '';
+    const setCookieHeader = response.headers.get('set-cookie');
+    if (setCookieHeader) {
+      const cookieParts: string[] = [];
+      const cookies = setCookieHeader.split(', ');
+      for (const cookie of cookies) {
+        const cookiePair = cookie.split(';')[0];
+        cookieParts.push(cookiePair);
+        const cookieName = cookiePair.split('=')[0];
+        logger.debug(`Setting cookie ${cookieName}`);
       }
+      cookieHeader = cookieParts.join('; ');
+    }
+    return cookieHeader;
+  }
+
+  /**
+   * Open the websocket with the given cookies
+   *
+   * Resolves once the socket is open; rejects if the handshake fails.
+   */
+  private openWebSocket(cookieHeader: string): Promise<void> {
+    const headers: Record<string, string> = {
+      'User-Agent': this.userAgent,
+      Origin: this.origin,
+    };
 
-      const headers: Record<string, string> = {
-        'User-Agent':
-          'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) ' +
-          'AppleWebKit/537.36 (KHTML, like Gecko) ' +
-          'Chrome/140.0.0.0 Safari/537.36',
-        Origin: 'https://app.eviqo.io',
+    // Append cookies to headers if we have any
+    if (cookieHeader) {
+      headers.Cookie = cookieHeader;
+    }
+
+    this.closeRequested = false;
+    const ws = new WebSocket(this.url, { headers });
+    this.ws = ws;
+
+    // Set up event handlers
+    return new Promise<void>((resolve, reject) => {
+      const connectHandler = () => {
+        logger.debug('Connected successfully!');
+        ws.removeListener('error', errorHandler);
+        this.startKeepalive();
+        this.startPageRefresh();
+        this.emit('connected');
+        resolve();
       };
 
-      // Append cookies to headers if we have any
-      if (cookieHeader) {
-        headers.Cookie = cookieHeader;
-      }
+      const errorHandler = (error: Error) => {
+        logger.error(`WebSocket error: ${error.message}`);
+        ws.removeListener('open', connectHandler);
+        reject(error);
+      };
+
+      ws.once('open', connectHandler);
+      ws.once('error', errorHandler);
 
-      this.ws = new WebSocket(this.url, { headers });
+      // Set up persistent handlers for ongoing connection monitoring
+      ws.on('message', (message: WebSocket.Data) => {
+        this.handleFrame(message);
+      });
 
-      // Set up event handlers
-      return new Promise<boolean>((resolve, reject) => {
-        if (!this.ws) {
-          reject(new Error('WebSocket not created'));
+      ws.on('close', (code, reason) => {
+        // Ignore sockets that have already been replaced by reconnect()
+        if (ws !== this.ws) {
           return;
         }
 
-        const connectHandler = () => {
-          logger.debug('Connected successfully!');
-          this.ws!.removeListener('error', errorHandler);
-          resolve(true);
-        };
-
-        const errorHandler = (error: Error) => {
-          logger.error(`WebSocket error: ${error.message}`);
-          this.ws!.removeListener('open', connectHandler);
-          reject(error);
-        };
-
-        this.ws.once('open', connectHandler);
-        this.ws.once('error', errorHandler);
-
-        // Set up persistent handlers for ongoing connection monitoring
-        this.ws.on('close', (code, reason) => {
-          logger.warn(`WebSocket closed: code=${code} reason=${reason.toString()}`);
-          this.emit('connectionClosed', { code, reason: reason.toString() });
-        });
-
-        this.ws.on('error', (error) => {
-          logger.error(`WebSocket error during operation: ${error.message}`);
-          this.emit('connectionError', error);
-        });
+        logger.warn(`WebSocket closed: code=${code} reason=${reason.toString()}`);
+        this.stopKeepalive();
+        this.stopPageRefresh();
+        this.dispatcher.rejectAll(
+          new ConnectionClosedError(`WebSocket closed: code=${code}`)
+        );
+        this.emit('connectionClosed', { code, reason: reason.toString() });
+
+        if (!this.closeRequested && !this.resuming) {
+          this.scheduleReconnect();
+        }
       });
+
+      ws.on('error', (error) => {
+        logger.error(`WebSocket error during operation: ${error.message}`);
+        this.emit('connectionError', error);
+      });
+    });
+  }
+
+  /**
+   * Session to try before fetching a new cookie, if any
+   *
+   * Sessions saved for a different account than the configured one are ignored.
+   */
+  private async loadSession(): Promise<StoredSession | null> {
+    let session: StoredSession | null = null;
+    try {
+      session = (await this.sessionStore.load()) ?? this.initialSession;
     } catch (error) {
-      logger.error(`Connection failed: ${error}`);
-      return false;
+      logger.warn(`Failed to load stored session: ${error}`);
+      session = this.initialSession;
+    }
+
+    if (
+      session?.email &&
+      this.username !== null &&
+      session.email.toLowerCase() !== this.username.toLowerCase()
+    ) {
+      logger.debug(`Ignoring stored session of ${session.email}`);
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Remember the current session after a credential login
+   */
+  private async saveSession(): Promise<void> {
+    if (!this.sessionCookie) {
+      return;
+    }
+    try {
+      await this.sessionStore.save({
+        cookie: this.sessionCookie,
+        email: this.username,
+        user: this.user,
+        savedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.warn(`Failed to save session: ${error}`);
+    }
+  }
+
+  /**
+   * Drop the stored session after the server rejected it
+   */
+  private async forgetSession(): Promise<void> {
+    this.initialSession = null;
+    try {
+      await this.sessionStore.clear();
+    } catch (error) {
+      logger.warn(`Failed to clear stored session: ${error}`);
     }
   }
 
   /**
-   * Check and send keepalive if needed
+   * Send a keepalive message
    *
-   * Sends keepalive message every 15 seconds to maintain connection
+   * Called every 15 seconds by the keepalive timer to maintain the connection
    * Message type 0x06 for keepalive/ping
    */
   async keepalive(): Promise<void> {
-    logger.debug('Keepalive check');
-    const now = new Date();
-    const elapsed = now.getTime() - this.keepaliveTimer.getTime();
+    logger.debug('Issue keepalive');
+    try {
+      await this.call({ command: Command.KEEPALIVE }, 'KEEPALIVE');
+    } catch (error) {
+      logger.warn(`Keepalive failed: ${error}`);
+    }
+  }
+
+  /**
+   * Start the keepalive timer
+   */
+  private startKeepalive(): void {
+    this.stopKeepalive();
+    this.keepaliveTimer = setInterval(() => {
+      void this.keepalive();
+    }, KEEPALIVE_INTERVAL);
+  }
+
+  /**
+   * Stop the keepalive timer
+   */
+  private stopKeepalive(): void {
+    if (this.keepaliveTimer) {
+      clearInterval(this.keepaliveTimer);
+      this.keepaliveTimer = null;
+    }
+  }
 
-    if (elapsed >= 15000) {
-      // 15 seconds
-      logger.debug('Issue keepalive');
-      this.keepaliveTimer = new Date();
-      await this.sendMessage(null, 0x00, 0x06, 0x00, undefined, 'KEEPALIVE');
-      await this.listen();
+  /**
+   * Start the page refresh timer, if a refresh interval is configured
+   */
+  private startPageRefresh(): void {
+    this.stopPageRefresh();
+    if (this.pageRefreshInterval <= 0) {
+      return;
     }
+    this.pageRefreshTimer = setInterval(() => {
+      if (this.refreshing || this.resuming) {
+        return;
+      }
+      this.refreshDevicePages().catch((error) => {
+        logger.warn(`Device page refresh failed: ${error}`);
+      });
+    }, this.pageRefreshInterval);
+  }
+
+  /**
+   * Stop the page refresh timer
+   */
+  private stopPageRefresh(): void {
+    if (this.pageRefreshTimer) {
+      clearInterval(this.pageRefreshTimer);
+      this.pageRefreshTimer = null;
+    }
+  }
+
+  /**
+   * Close the websocket connection
+   */
+  disconnect(): void {
+    this.closeRequested = true;
+    this.stopKeepalive();
+    this.stopPageRefresh();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.ws) {
+      this.ws.close();
+      logger.debug('Connection closed');
+    }
+    this.emit('disconnected');
   }
 
   /**
@@ -180,206 +596,578 @@ export class EviqoWebsocketConnection extends EventEmitter {
   async issueInitialization(): Promise<void> {
     logger.debug('Sending initialization message...');
 
-    const initPayload = {
-      clientType: 'web',
-      version: '0.98.2',
-      locale: 'en_US',
-    };
-
     // Header: 0x01300001
-    await this.sendMessage(initPayload, 0x01, 0x30, 0x00, 0x01, 'INIT');
-
-    const { payload } = await this.listen();
-    if (payload === null) {
-      throw new Error('Init message failed');
-    }
+    await this.call(
+      {
+        command: Command.INIT,
+        body: {
+          clientType: 'web',
+          version: this.clientVersion,
+          locale: this.locale,
+        },
+      },
+      'INIT'
+    );
   }
 
   /**
    * Send login message with hashed password
    *
    * AUTH:
-   * 0x00020003{"email":"<EMAIL>","hash":"<B64_HASH>","clientType":"web","version":"0.98.2","locale":"en_US"}
+   * 0x00020003{"email":"<EMAIL>","hash":"<B64_HASH>","clientType":"web","version":"<VERSION>","locale":"<LOCALE>"}
    * RESP:
    * 0x00020003<EviqoUserModel>
+   *
+   * If connect() reused a stored session that is still authenticated, no
+   * login message is sent. If the stored session has expired (or its
+   * connection times out or closes), the client reconnects with a new cookie
+   * and logs in with its credentials. Sessions
+   * authenticated by a credential login are saved to the session store.
+   *
+   * The email and hash come from the credential provider (see the
+   * `credentials` option), asked again at every login.
+   *
+   * @throws AuthenticationError if the credentials are rejected
    */
   async login(): Promise<void> {
+    const resumed = this.resumedSession;
+    this.resumedSession = null;
+    if (resumed) {
+      if (await this.isAuthenticated()) {
+        logger.debug('Resumed stored session');
+        if (resumed.user && resumed.user !== this.user) {
+          this.setUser(resumed.user);
+        }
+        return;
+      }
+
+      logger.info('Stored session expired; logging in again');
+      await this.forgetSession();
+      if (this.credentials === null) {
+        throw new AuthenticationError(
+          ResponseCode.USER_NOT_AUTHENTICATED,
+          'Stored session expired and no credentials are set'
+        );
+      }
+
+      // The stale socket may already have closed and scheduled a reconnect
+      if (this.reconnectTimer) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+        this.reconnectAttempts = 0;
+      }
+      const ws = this.ws;
+      this.ws = null;
+      this.stopKeepalive();
+      this.stopPageRefresh();
+      ws?.close();
+      if (!(await this.connect())) {
+        throw new Error('Failed to connect');
+      }
+    }
+
     logger.debug('Sending login message...');
 
-    if (this.username === null || this.password === null) {
+    if (this.credentials === null) {
       throw new Error('User and password must be set');
     }
 
-    await this.sendMessage(
+    const { email, hash } = await this.credentials.getCredentials();
+    const reply = await this.call(
       {
-        email: this.username,
-        hash: calculateHash(this.username, this.password),
-        clientType: 'web',
-        version: '0.98.2',
-        locale: 'en_US',
+        command: Command.LOGIN,
+        body: {
+          email,
+          hash,
+          clientType: 'web',
+          version: this.clientVersion,
+          locale: this.locale,
+        },
       },
-      0x00,
-      0x02,
-      0x00,
-      0x03,
       'LOGIN'
     );
+    this.setUser(expectReply(reply, Command.LOGIN, 'LOGIN').body as EviqoUserModel);
+    this.username = email;
+    await this.saveSession();
+  }
+
+  /**
+   * Store the login reply and announce account changes
+   */
+  private setUser(user: EviqoUserModel): void {
+    const previous = this.user ? accountInfoFromUser(this.user) : null;
+    this.user = user;
+    const account = accountInfoFromUser(user);
+    this.emit('accountUpdated', { account, previous });
+
+    if (
+      previous?.serverVersion &&
+      account.serverVersion &&
+      previous.serverVersion !== account.serverVersion
+    ) {
+      logger.info(
+        `Eviqo server version changed from ${previous.serverVersion} to ${account.serverVersion}`
+      );
+      this.emit('serverVersionChanged', {
+        previous: previous.serverVersion,
+        current: account.serverVersion,
+      });
+    }
+  }
 
-    const { payload } = await this.listen();
-    if (payload === null) {
-      throw new Error('Did not get back user payload');
+  /**
+   * Check whether the connection's session is authenticated
+   *
+   * Sends a one-device query; the server rejects it on unauthenticated sessions.
+   * A query that times out or loses its connection also counts as not
+   * authenticated, as stale sessions may be dropped without an answer.
+   */
+  private async isAuthenticated(): Promise<boolean> {
+    try {
+      await this.call(
+        { command: Command.DEVICE_QUERY, body: deviceQueryBody({}, 0, 1) },
+        'DEVICE QUERY'
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof TimeoutError || error instanceof ConnectionClosedError) {
+        logger.warn(`Stored session did not answer: ${error.message}`);
+        return false;
+      }
+      if (error instanceof AuthenticationError) {
+        return false;
+      }
+      throw error;
     }
-    this.user = payload as unknown as EviqoUserModel;
   }
 
   /**
    * Query devices associated with the account
+   *
+   * Pages through the results until the reported count is reached, so
+   * accounts with more devices than fit in one page are fully listed.
+   * The device list is replaced (not appended to) on every call; entries
+   * without a device ID are skipped.
+   *
+   * @param options - Filters, sort order and page size
+   * @returns Devices on the account, deduplicated by device ID
    */
-  async queryDevices(): Promise<void> {
+  async queryDevices(options: DeviceQueryOptions = {}): Promise<DeviceDocs[]> {
     logger.debug('Sending device query message...');
 
-    await this.sendMessage(
-      {
-        docType: 'DEVICE',
-        mode: 'MATCH_ALL',
-        viewType: 'LIST',
-        filters: [
-          {
-            type: 'SUB_SEGMENT',
-            filters: [],
-            mode: 'MATCH_ANY',
-            isCurrent: true,
-          },
-        ],
-        offset: 0,
-        limit: 17,
-        order: 'ASC',
-        sortBy: 'Name',
-      },
-      0x01,
-      0x1b,
-      0x00,
-      undefined,
-      'DEVICE QUERY'
-    );
+    const pageSize = options.pageSize ?? DEFAULT_DEVICE_PAGE_SIZE;
+    const found = new Map<number, DeviceDocs>();
+    let offset = 0;
+
+    for (;;) {
+      const reply = await this.call(
+        {
+          command: Command.DEVICE_QUERY,
+          body: deviceQueryBody(options, offset, pageSize),
+        },
+        'DEVICE QUERY'
+      );
+      const deviceResponse = expectReply(reply, Command.DEVICE_QUERY, 'DEVICE QUERY')
+        .body as EviqoDeviceQueryModel;
+      const docs = Array.isArray(deviceResponse?.docs) ? deviceResponse.docs : [];
+
+      for (const entry of docs) {
+        const deviceDetails = entry.find(
+          (item): item is DeviceDocs =>
+            typeof item === 'object' && item !== null && !Array.isArray(item)
+        );
+        if (deviceDetails?.deviceId === undefined) {
+          logger.warn(`Skipping malformed device entry: ${JSON.stringify(entry)}`);
+          continue;
+        }
 
-    const { payload } = await this.listen();
-    const deviceResponse = payload as unknown as EviqoDeviceQueryModel;
+        if (!found.has(deviceDetails.deviceId)) {
+          logger.info(
+            `Found device name='${deviceDetails.name}' deviceId=${deviceDetails.deviceId}`
+          );
+        }
+        found.set(deviceDetails.deviceId, deviceDetails);
+      }
 
-    for (const device of deviceResponse.docs) {
-      const deviceDetails = device[1] as DeviceDocs;
-      this.devices.push(deviceDetails);
-      logger.info(
-        `Found device name='${deviceDetails.name}' deviceId=${deviceDetails.deviceId}`
-      );
+      offset += docs.length;
+      if (docs.length === 0 || offset >= (deviceResponse.count ?? 0)) {
+        break;
+      }
     }
+
+    this.registry.setDocs(Array.from(found.values()));
+    return this.registry.getDocs();
   }
 
   /**
    * Request charging status for a device
    *
+   * Fetches the device's main (first) dashboard tab; see requestDevicePage().
+   *
    * @param deviceId - Device ID to query
    * @returns Device page model with widgets and status
    */
   async requestChargingStatus(
     deviceId: number
   ): Promise<EviqoDevicePageModel> {
-    if (this.ws === null) {
-      throw new Error(
-        'Cannot request charging status before websocket is created'
-      );
+    logger.debug('Requesting charging status...');
+    return this.requestDevicePage(deviceId);
+  }
+
+  /**
+   * List the dashboard tabs of a device
+   *
+   * Uses the tabs of a page already fetched for the device or for another
+   * device of the same template; otherwise fetches the device's default
+   * page to learn them.
+   *
+   * @param deviceId - Device ID
+   * @returns Tab pages, in dashboard order
+   */
+  async getTabPages(deviceId: number): Promise<TabPage[]> {
+    const known = this.knownTabPages(deviceId);
+    if (known) {
+      return known;
     }
 
-    const pageId = '17948'; // Magic number from Python implementation
+    const devicePage = await this.fetchDevicePage(deviceId, null);
+    if (this.isMainTab(devicePage, null)) {
+      this.storeDevicePage(devicePage);
+    }
+    return devicePage.tabPages ?? [];
+  }
 
-    logger.debug('Requesting charging status...');
+  /**
+   * Fetch one dashboard tab of a device
+   *
+   * The main (first) tab is the device's page: it is registered, seeds the
+   * live state and is refreshed on reconnect. Other tabs are only returned.
+   *
+   * @param deviceId - Device ID
+   * @param tab - Tab id or name (default: the main tab)
+   * @returns Device page model for the tab
+   * @throws ValidationError if the device has no such tab
+   */
+  async requestDevicePage(
+    deviceId: number,
+    tab?: number | string
+  ): Promise<EviqoDevicePageModel> {
+    // Without a known tab list the server's default page is the main tab
+    let pageId: string | null = null;
+    const known = this.knownTabPages(deviceId);
+    if (tab !== undefined || known) {
+      const tabPages = known ?? (await this.getTabPages(deviceId));
+      const tabPage = findTabPage(tabPages, tab);
+      if (!tabPage && tab !== undefined) {
+        throw new ValidationError(`Device ${deviceId} has no tab "${tab}"`);
+      }
+      pageId = tabPage ? String(tabPage.id) : null;
+    }
 
-    await this.sendMessage(
-      String(deviceId),
-      0x00,
-      0x49,
-      0x01,
-      undefined,
+    const devicePage = await this.fetchDevicePage(deviceId, pageId);
+    if (this.isMainTab(devicePage, pageId)) {
+      this.storeDevicePage(devicePage);
+    }
+    return devicePage;
+  }
+
+  /**
+   * Fetch every dashboard tab of a device
+   *
+   * @param deviceId - Device ID
+   * @returns One page per tab, main tab first
+   */
+  async requestDevicePages(deviceId: number): Promise<EviqoDevicePageModel[]> {
+    const tabPages = await this.getTabPages(deviceId);
+    if (tabPages.length === 0) {
+      return [await this.requestDevicePage(deviceId)];
+    }
+
+    const devicePages: EviqoDevicePageModel[] = [];
+    for (const tabPage of tabPages) {
+      devicePages.push(await this.requestDevicePage(deviceId, tabPage.id));
+    }
+    return devicePages;
+  }
+
+  /**
+   * Tabs of a device, from its own page or another device of its template
+   */
+  private knownTabPages(deviceId: number): TabPage[] | undefined {
+    const device = this.registry.get(deviceId);
+    if (device?.page?.tabPages?.length) {
+      return device.page.tabPages;
+    }
+    const templateId = device?.docs?.templateId ?? device?.page?.templateId;
+    return templateId ? this.tabPagesByTemplate.get(templateId) : undefined;
+  }
+
+  /**
+   * Check whether a fetched page is the device's main tab
+   */
+  private isMainTab(devicePage: EviqoDevicePageModel, pageId: string | null): boolean {
+    return pageId === null || pageId === String(devicePage.tabPages?.[0]?.id);
+  }
+
+  /**
+   * Register a device's main page and seed its state
+   *
+   * Emits stateChanged for values that changed since the previous page or
+   * update, so transitions missed between refreshes are not lost.
+   */
+  private storeDevicePage(devicePage: EviqoDevicePageModel): void {
+    if (devicePage.templateId && devicePage.tabPages?.length) {
+      this.tabPagesByTemplate.set(devicePage.templateId, devicePage.tabPages);
+    }
+    this.registry.setPage(devicePage);
+    for (const change of this.state.loadPage(devicePage)) {
+      this.emit('stateChanged', change);
+    }
+  }
+
+  /**
+   * Select a device and fetch one of its pages
+   *
+   * @param pageId - Tab id, or null for the server's default page
+   */
+  private async fetchDevicePage(
+    deviceId: number,
+    pageId: string | null
+  ): Promise<EviqoDevicePageModel> {
+    if (this.ws === null) {
+      throw new Error('Cannot request a device page before websocket is created');
+    }
+
+    const selected = await this.call(
+      { command: Command.SELECT_DEVICE, deviceId: String(deviceId) },
       'DEVICE NUMBER'
     );
+    logger.debug(JSON.stringify(selected));
 
-    // Expect one message
-    let result = await this.listen();
-    logger.debug(JSON.stringify(result.header));
-    logger.debug(JSON.stringify(result.payload));
-
-    await this.sendMessage(
+    const reply = await this.call(
       {
-        pageId,
-        deviceId: String(deviceId),
-        dashboardPageId: null,
+        command: Command.DEVICE_PAGE,
+        body: {
+          pageId,
+          deviceId: String(deviceId),
+          dashboardPageId: null,
+        },
       },
-      0x01,
-      0x04,
-      0x00,
-      undefined,
       'DEVICE PAGE'
     );
 
-    result = await this.listen();
-    return result.payload as unknown as EviqoDevicePageModel;
+    return expectReply(reply, Command.DEVICE_PAGE, 'DEVICE PAGE')
+      .body as EviqoDevicePageModel;
   }
 
   /**
-   * Get formatted timestamp
+   * Fetch the history of a datastream
    *
-   * @returns Timestamp in HH:MM:SS format
+   * Issues the dashboard's chart request for the time range. Non-numeric
+   * values and points outside the range are dropped.
+   *
+   * Experimental: the GRAPH_DATA request this relies on has not been checked
+   * against the Eviqo cloud, so the call may be rejected or its result may
+   * change in a later release.
+   *
+   * @param deviceId - Device ID
+   * @param streamOrPin - Datastream name (e.g. "Session power") or pin
+   * @param options - Time range and granularity
+   * @returns Points oldest first; empty if the server has no data for the range
+   * @throws ValidationError if the datastream is unknown or the range is empty
    */
-  getTimestamp(): string {
-    const now = new Date();
-    return now.toTimeString().split(' ')[0];
+  async getHistory(
+    deviceId: number | string,
+    streamOrPin: string | number,
+    options: HistoryOptions
+  ): Promise<DatastreamHistory> {
+    const stream =
+      (typeof streamOrPin === 'string'
+        ? this.registry.getStreamByName(deviceId, streamOrPin)
+        : undefined) ?? this.registry.getStreamByPin(deviceId, streamOrPin);
+    if (!stream) {
+      throw new ValidationError(
+        `Device ${deviceId} has no datastream "${streamOrPin}"; fetch its page first`
+      );
+    }
+
+    const from = new Date(options.from);
+    const to = new Date(options.to ?? Date.now());
+    const granularity = options.granularity ?? 'MINUTE';
+    if (!(from.getTime() <= to.getTime())) {
+      throw new ValidationError(
+        `Invalid history range ${from.toISOString()} - ${to.toISOString()}`
+      );
+    }
+
+    const history: DatastreamHistory = {
+      deviceId: String(deviceId),
+      pin: String(stream.pin),
+      name: stream.name,
+      granularity,
+      from,
+      to,
+      points: [],
+    };
+
+    let reply: EviqoMessage;
+    try {
+      reply = await this.call(
+        {
+          command: Command.GRAPH_DATA,
+          body: {
+            deviceId: String(deviceId),
+            dataStreamId: stream.id,
+            pin: String(stream.pin),
+            from: from.getTime(),
+            to: to.getTime(),
+            granularity,
+          },
+        },
+        'GRAPH DATA'
+      );
+    } catch (error) {
+      if (error instanceof ResponseError && error.code === ResponseCode.NO_DATA) {
+        return history;
+      }
+      throw error;
+    }
+
+    const graph = expectReply(reply, Command.GRAPH_DATA, 'GRAPH DATA')
+      .body as EviqoGraphDataModel;
+    for (const { x, y } of graph.data ?? []) {
+      const value = y === null || y === '' ? NaN : Number(y);
+      if (Number.isFinite(value) && x >= from.getTime() && x <= to.getTime()) {
+        history.points.push({ time: new Date(x), value });
+      }
+    }
+    history.points.sort((a, b) => a.time.getTime() - b.time.getTime());
+    return history;
   }
 
   /**
-   * Extract widget ID to name mappings from dashboard JSON
+   * Fetch pages and build widget maps for every device on the account
    *
-   * @param deviceIdx - Device index
-   * @param devicePage - Device page model
+   * Devices that disappeared since the last call are dropped (deviceRemoved)
+   * and new ones are picked up (deviceAdded). Reconnects repeat this, so
+   * devices added or removed while disconnected are handled too.
+   *
+   * @returns Pages of all devices
    */
-  extractWidgetMappings(
-    deviceIdx: number,
-    devicePage: EviqoDevicePageModel
-  ): void {
-    const dashboard = devicePage.dashboard;
-    const widgets = dashboard.widgets;
+  async subscribeAll(): Promise<EviqoDevicePageModel[]> {
+    this.subscribedAll = true;
+    await this.syncDevices(true);
+    return this.registry.getPages();
+  }
 
-    let deviceWidgetIdMap = this.widgetIdMap.get(deviceIdx);
-    if (!deviceWidgetIdMap) {
-      deviceWidgetIdMap = new Map<string, DisplayDataStream>();
-      this.widgetIdMap.set(deviceIdx, deviceWidgetIdMap);
-    }
+  /**
+   * Re-query devices and refresh the pages being followed
+   *
+   * @param includeNew - Also fetch pages of devices not followed yet
+   */
+  private async syncDevices(includeNew: boolean): Promise<void> {
+    const known = new Set(
+      this.registry.getPages().map((page) => String(page.id))
+    );
+    const devices = await this.queryDevices();
+    const present = new Set(
+      devices
+        .filter((device) => device.deviceId !== undefined)
+        .map((device) => String(device.deviceId))
+    );
 
-    let deviceWidgetNameMap = this.widgetNameMap.get(deviceIdx);
-    if (!deviceWidgetNameMap) {
-      deviceWidgetNameMap = new Map<string, DisplayDataStream>();
-      this.widgetNameMap.set(deviceIdx, deviceWidgetNameMap);
+    for (const deviceId of known) {
+      if (!present.has(deviceId)) {
+        logger.info(`Device ${deviceId} is no longer on the account`);
+        this.forgetDevice(deviceId);
+        this.emit('deviceRemoved', { deviceId });
+      }
     }
 
-    let deviceWidgetPinMap = this.widgetPinMap.get(deviceIdx);
-    if (!deviceWidgetPinMap) {
-      deviceWidgetPinMap = new Map<string, DisplayDataStream>();
-      this.widgetPinMap.set(deviceIdx, deviceWidgetPinMap);
+    for (const device of devices) {
+      if (device.deviceId === undefined) {
+        continue;
+      }
+      const deviceId = String(device.deviceId);
+      if (!includeNew && !known.has(deviceId)) {
+        continue;
+      }
+
+      const devicePage = await this.requestChargingStatus(device.deviceId);
+      if (!known.has(deviceId)) {
+        this.emit('deviceAdded', { device, devicePage });
+      }
     }
+  }
 
-    for (const widget of widgets) {
-      const modules = widget.modules;
-      for (const module of modules) {
-        const displayDataStreams = module.displayDataStreams;
-        for (const stream of displayDataStreams) {
-          deviceWidgetIdMap.set(String(stream.id), stream);
-          deviceWidgetNameMap.set(stream.name, stream);
-          deviceWidgetPinMap.set(String(stream.pin), stream);
+  /**
+   * Refetch the page of every followed device and report what changed
+   *
+   * Emits deviceChanged for each device whose datastreams, meta fields,
+   * name or hardware info differ from the previous fetch. Runs on a timer
+   * when the pageRefreshInterval option is set. A device whose page cannot
+   * be fetched is skipped until the next refresh.
+   *
+   * @returns Diffs of the devices that changed
+   */
+  async refreshDevicePages(): Promise<DevicePageDiff[]> {
+    const changes: DevicePageDiff[] = [];
+    this.refreshing = true;
+    try {
+      for (const previous of this.registry.getPages()) {
+        let devicePage: EviqoDevicePageModel;
+        try {
+          devicePage = await this.requestChargingStatus(previous.id);
+        } catch (error) {
+          logger.warn(`Failed to refresh page of device ${previous.id}: ${error}`);
+          continue;
+        }
+
+        const diff = diffDevicePages(previous, devicePage);
+        if (hasPageChanges(diff)) {
+          logger.info(`Device ${previous.id} page changed`);
+          changes.push(diff);
+          this.emit('deviceChanged', { diff, devicePage });
         }
       }
+    } finally {
+      this.refreshing = false;
     }
+    return changes;
+  }
+
+  /**
+   * Drop the page, widget maps and state of a device
+   */
+  private forgetDevice(deviceId: string): void {
+    this.registry.remove(deviceId);
+    this.state.removeDevice(deviceId);
+  }
+
+  /**
+   * Get formatted timestamp
+   *
+   * @returns Timestamp in HH:MM:SS format
+   */
+  getTimestamp(): string {
+    const now = new Date();
+    return now.toTimeString().split(' ')[0];
+  }
 
-    if (deviceWidgetIdMap.size > 0) {
-      const sortedEntries = Array.from(deviceWidgetIdMap.entries()).sort(
+  /**
+   * Extract widget ID to name mappings from dashboard JSON
+   *
+   * Registers the page and replaces any mappings previously extracted for
+   * the same device. requestChargingStatus() already does this for pages
+   * it fetches.
+   *
+   * @param devicePage - Device page model
+   */
+  extractWidgetMappings(devicePage: EviqoDevicePageModel): void {
+    const { streamsById } = this.registry.setPage(devicePage);
+
+    if (streamsById.size > 0) {
+      const sortedEntries = Array.from(streamsById.entries()).sort(
         (a, b) => {
           const aNum = /^\d+$/.test(a[0]) ? parseInt(a[0], 10) : 0;
           const bNum = /^\d+$/.test(b[0]) ? parseInt(b[0], 10) : 0;
@@ -398,43 +1186,23 @@ export class EviqoWebsocketConnection extends EventEmitter {
    *
    * Looks up widget information and emits widgetUpdate event
    *
-   * @param payload - Parsed widget update payload from protocol
+   * @param update - Decoded widget update body
    */
-  private handleWidgetUpdate(payload: Record<string, unknown>): void {
-    // Note: widgetId in the message is actually the pin number
-    const { widgetId: pin, deviceId, widgetValue } = payload as {
-      widgetId: string;
-      deviceId: string;
-      widgetValue: string;
-    };
+  private handleWidgetUpdate(update: PinWrite): void {
+    const { pin, deviceId, value: widgetValue } = update;
 
     if (!pin || !deviceId) {
       logger.debug('Widget update missing required fields');
       return;
     }
 
-    // Find the device index for this device ID
-    let deviceIdx = -1;
-    for (let i = 0; i < this.devices.length; i++) {
-      if (String(this.devices[i].deviceId) === deviceId) {
-        deviceIdx = i;
-        break;
-      }
-    }
-
-    if (deviceIdx === -1) {
-      logger.debug(`Unknown device ID in widget update: ${deviceId}`);
-      return;
-    }
-
     // Look up widget by pin number (the message contains pin, not widget id)
-    const deviceWidgetPinMap = this.widgetPinMap.get(deviceIdx);
-    if (!deviceWidgetPinMap) {
-      logger.debug(`No widget pin map for device index ${deviceIdx}`);
+    if (!this.registry.get(deviceId)?.page) {
+      logger.debug(`Unknown device ID in widget update: ${deviceId}`);
       return;
     }
 
-    const widgetStream = deviceWidgetPinMap.get(pin);
+    const widgetStream = this.registry.getStreamByPin(deviceId, pin);
     if (!widgetStream) {
       logger.debug(`Unknown pin: ${pin}`);
       return;
@@ -453,72 +1221,99 @@ export class EviqoWebsocketConnection extends EventEmitter {
     });
   }
 
-
   /**
-   * Listen for incoming messages
+   * Handle an inbound websocket frame
    *
-   * @param duration - Timeout duration in seconds (default: 10)
-   * @returns Parsed message with header and payload
+   * This is the single permanent frame handler installed at connect() time.
+   * Every frame is emitted as a message event, then widget updates
+   * (0x14/0x19) are applied to the state store and routed to
+   * handleWidgetUpdate, replies are handed to the
+   * request dispatcher, and anything else is emitted as an
+   * unsolicitedMessage event.
+   *
+   * @param message - Raw websocket message
    */
-  async listen(
-    duration = 10
-  ): Promise<{
-    header: MessageHeader | null;
-    payload: Record<string, unknown> | string | null;
-  }> {
-    logger.debug(`Listening for messages for ${duration} seconds...`);
+  private handleFrame(message: WebSocket.Data): void {
+    if (!(message instanceof Buffer)) {
+      return;
+    }
+
+    logger.debug(`RECEIVED BINARY (${message.length} bytes):`);
+    const parsed = parseBinaryMessage(message);
+    this.emit('message', parsed);
+
+    const decoded = parsed.message;
+    if (
+      decoded?.command === Command.WIDGET_UPDATE ||
+      decoded?.command === Command.USER_UPDATE
+    ) {
+      const { deviceId, pin, value } = decoded.update;
+      const change = this.state.apply(deviceId, pin, value);
+      this.confirmWrites(decoded.update);
+      this.handleWidgetUpdate(decoded.update);
+      if (change) {
+        this.emit('stateChanged', change);
+      }
+      return;
+    }
 
+    if (this.dispatcher.dispatch(parsed)) {
+      return;
+    }
+
+    this.emit('unsolicitedMessage', parsed);
+  }
+
+  /**
+   * Send a typed message and wait for the reply carrying the same message id
+   *
+   * @param message - Message to send (see utils/codec.ts)
+   * @param description - Description for logging (defaults to the command name)
+   * @param timeout - Time to wait for the reply in ms
+   * @returns Decoded reply
+   * @throws ResponseError (or a subclass) if the server answers with an error code
+   * @throws TimeoutError if no reply arrives in time
+   */
+  async call(
+    message: OutgoingMessage,
+    description = commandName(message.command),
+    timeout = DEFAULT_REQUEST_TIMEOUT
+  ): Promise<EviqoMessage> {
     if (this.ws === null) {
-      logger.error('Cannot listen, websocket not created');
-      return { header: null, payload: null };
+      throw new Error(`Cannot send ${description}, websocket not created`);
     }
 
+    const messageId = fixedMessageId(message.command) ?? this.dispatcher.allocateId();
+    const reply = this.dispatcher.register(messageId, description, timeout);
+
     try {
-      // Declare handler in outer scope so both promises can access it
-      let messageHandler: ((message: WebSocket.Data) => void) | null = null;
-
-      return await Promise.race([
-        new Promise<{
-          header: MessageHeader | null;
-          payload: Record<string, unknown> | string | null;
-        }>((resolve) => {
-          messageHandler = (message: WebSocket.Data) => {
-            if (message instanceof Buffer) {
-              logger.debug(`RECEIVED BINARY (${message.length} bytes):`);
-              const { header, payload } = parseBinaryMessage(message);
-
-              if (header && header.payloadType === 'widget_update') {
-                this.handleWidgetUpdate(payload as Record<string, unknown>);
-              }
-
-              if (messageHandler) {
-                this.ws?.removeListener('message', messageHandler);
-                messageHandler = null; // Prevent double removal
-              }
-              resolve({ header, payload });
-            }
-          };
-
-          this.ws?.on('message', messageHandler);
-        }),
-        new Promise<{
-          header: MessageHeader | null;
-          payload: Record<string, unknown> | string | null;
-        }>((resolve) => {
-          setTimeout(() => {
-            logger.debug('Listening period ended');
-            if (messageHandler) {
-              this.ws?.removeListener('message', messageHandler);
-              messageHandler = null; // Prevent double removal
-            }
-            resolve({ header: null, payload: null });
-          }, duration * 1000);
-        }),
-      ]);
+      this.writeFrame(encodeMessage(message, messageId), messageId, description);
     } catch (error) {
-      logger.error(`Error while listening: ${error}`);
-      return { header: null, payload: null };
+      this.dispatcher.cancel(messageId);
+      throw error;
+    }
+
+    const { message: decoded } = await reply;
+    if (!decoded) {
+      throw new Error(`Undecodable reply to ${description}`);
     }
+    return decoded;
+  }
+
+  /**
+   * Send a typed message without waiting for a reply
+   *
+   * @param message - Message to send (see utils/codec.ts)
+   * @param description - Description for logging (defaults to the command name)
+   * @returns Message id used in byte4
+   */
+  async send(
+    message: OutgoingMessage,
+    description = commandName(message.command)
+  ): Promise<number> {
+    const messageId = fixedMessageId(message.command) ?? this.dispatcher.allocateId();
+    this.writeFrame(encodeMessage(message, messageId), messageId, description);
+    return messageId;
   }
 
   /**
@@ -526,30 +1321,137 @@ export class EviqoWebsocketConnection extends EventEmitter {
    *
    * Command format: 0x00 0x14 0x00 msgId + deviceId\0vw\0pin\0value
    *
+   * Resolves once the command is confirmed, either by the server's
+   * acknowledgement for its message id or by a widget update reporting the
+   * written value on the same pin, whichever arrives first. Updates with
+   * another value (a stale status report, or a rejected command) leave the
+   * command pending. Emits commandSent when the frame is
+   * written, then commandConfirmed or commandFailed.
+   *
    * @param deviceId - Device ID string (e.g., "51627")
    * @param pin - Pin number string (e.g., "3" for Current)
    * @param value - Value string (e.g., "32" for 32 amps)
+   * @param timeout - Time to wait for confirmation in ms (default: commandTimeout option)
+   * @returns The confirmed command
+   * @throws ResponseError (or a subclass) if the server rejects the command
+   * @throws TimeoutError if the command is not confirmed in time
    */
-  async sendCommand(deviceId: string, pin: string, value: string): Promise<void> {
-    // Build payload: deviceId\0vw\0pin\0value
-    const payload = `${deviceId}\0vw\0${pin}\0${value}`;
-
-    await this.sendMessage(
-      payload,
-      0x00,
-      0x14,
-      0x00,
-      undefined,
-      `COMMAND device=${deviceId} pin=${pin} value=${value}`
+  async sendCommand(
+    deviceId: string,
+    pin: string,
+    value: string,
+    timeout = this.commandTimeout
+  ): Promise<CommandConfirmedEvent> {
+    const description = `COMMAND device=${deviceId} pin=${pin} value=${value}`;
+    const command = { deviceId, pin, value, time: new Date() };
+    const key = `${deviceId}:${pin}`;
+
+    const messageId = this.dispatcher.allocateId();
+    const ack = this.dispatcher.register(messageId, description, timeout);
+    // Keep a lost race from surfacing as an unhandled rejection
+    ack.catch(() => undefined);
+
+    const pending: PendingWrite = { value, confirm: () => undefined };
+    const update = new Promise<void>((resolve) => {
+      pending.confirm = resolve;
+    });
+    const waiting = this.pendingWrites.get(key) ?? new Set();
+    waiting.add(pending);
+    this.pendingWrites.set(key, waiting);
+
+    try {
+      this.writeFrame(
+        encodeMessage(
+          {
+            command: Command.WIDGET_UPDATE,
+            update: { deviceId, kind: 'vw', pin, value },
+          },
+          messageId
+        ),
+        messageId,
+        description
+      );
+      this.emit('commandSent', command);
+
+      const confirmedBy = await Promise.race([
+        ack.then(() => 'ack' as const),
+        update.then(() => 'update' as const),
+      ]);
+      const confirmed: CommandConfirmedEvent = {
+        ...command,
+        confirmedBy,
+        time: new Date(),
+      };
+      logger.debug(`${description} confirmed by ${confirmedBy}`);
+      this.emit('commandConfirmed', confirmed);
+      return confirmed;
+    } catch (error) {
+      logger.warn(`${description} failed: ${error}`);
+      this.emit('commandFailed', {
+        ...command,
+        error: error instanceof Error ? error : new Error(String(error)),
+        time: new Date(),
+      });
+      throw error;
+    } finally {
+      // No-op if the acknowledgement already arrived
+      this.dispatcher.cancel(messageId);
+      waiting.delete(pending);
+      if (waiting.size === 0 && this.pendingWrites.get(key) === waiting) {
+        this.pendingWrites.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Write a value to a datastream after checking it against its bounds
+   *
+   * @param deviceId - Device ID
+   * @param streamOrPin - Datastream name (e.g. "Current") or pin
+   * @param value - Value to write; switches and on/off datastreams take 0 or 1
+   * @param timeout - Time to wait for confirmation in ms (default: commandTimeout option)
+   * @returns The confirmed command
+   * @throws ValidationError if the datastream is unknown or read-only, or
+   * the value is out of range or off-step
+   * @see sendCommand
+   */
+  async writeValue(
+    deviceId: number | string,
+    streamOrPin: string | number,
+    value: string | number,
+    timeout = this.commandTimeout
+  ): Promise<CommandConfirmedEvent> {
+    const stream =
+      (typeof streamOrPin === 'string'
+        ? this.registry.getStreamByName(deviceId, streamOrPin)
+        : undefined) ?? this.registry.getStreamByPin(deviceId, streamOrPin);
+    if (!stream) {
+      throw new ValidationError(
+        `Device ${deviceId} has no datastream "${streamOrPin}"; fetch its page first`
+      );
+    }
+
+    const onOff = this.registry.isOnOffStream(deviceId, stream.pin);
+    return this.sendCommand(
+      String(deviceId),
+      String(stream.pin),
+      validateStreamValue(stream, value, onOff),
+      timeout
     );
+  }
 
-    // Emit commandSent event so listeners can update state immediately
-    this.emit('commandSent', {
-      deviceId,
-      pin,
-      value,
-      time: new Date(),
-    });
+  /**
+   * Confirm commands waiting for this value on this pin
+   */
+  private confirmWrites(update: PinWrite): void {
+    const waiting = this.pendingWrites.get(`${update.deviceId}:${update.pin}`);
+    if (waiting) {
+      for (const pending of waiting) {
+        if (sameValue(update.value, pending.value)) {
+          pending.confirm();
+        }
+      }
+    }
   }
 
   /**
@@ -559,11 +1461,18 @@ export class EviqoWebsocketConnection extends EventEmitter {
    * - byte1, byte2, byte3, byte4
    * - Payload
    *
+   * Errors are logged, not thrown. Replies are not waited for; use call()
+   * for that.
+   *
+   * @deprecated Use send() (or call() to wait for the reply) with a typed
+   * message (see utils/codec.ts); this method will be removed in the next
+   * major release.
+   *
    * @param payload - Message payload (object, string, or null)
    * @param byte1 - First header byte
    * @param byte2 - Second header byte (often message type)
    * @param byte3 - Third header byte
-   * @param byte4 - Fourth header byte (auto-increment if undefined)
+   * @param byte4 - Fourth header byte (next free message id if undefined)
    * @param description - Description for logging
    */
   async sendMessage(
@@ -580,25 +1489,32 @@ export class EviqoWebsocketConnection extends EventEmitter {
     }
 
     try {
-      let actualByte4 = byte4;
-      if (actualByte4 === undefined) {
-        actualByte4 = this.messageCounter;
-        this.messageCounter += 1;
-      }
-
-      const message = createBinaryMessage(payload, byte1, byte2, byte3, actualByte4);
-      logger.info(`SENDING ${description} [byte4=${actualByte4}, counter=${this.messageCounter}]`);
-      logger.debug(`Outbound hex: ${message.toString('hex')}`);
-      this.ws.send(message);
+      const messageId = byte4 ?? this.dispatcher.allocateId();
+      const frame = createBinaryMessage(payload, byte1, byte2, byte3, messageId);
+      this.writeFrame(frame, messageId, description);
     } catch (error) {
       logger.error(`Error sending message: ${error}`);
     }
   }
 
+  /**
+   * Write an encoded frame to the WebSocket
+   */
+  private writeFrame(frame: Buffer, messageId: number, description: string): void {
+    if (this.ws === null) {
+      throw new Error('Error sending, websocket not created');
+    }
+
+    logger.info(`SENDING ${description} [byte4=${messageId}]`);
+    logger.debug(`Outbound hex: ${frame.toString('hex')}`);
+    this.ws.send(frame);
+  }
+
   /**
    * Main exploration routine
    *
-   * Connects to Eviqo, authenticates, queries devices, and monitors updates
+   * Connects to Eviqo, authenticates, subscribes to every device on the
+   * account, and monitors updates
    *
    * @param justScan - If true, only scan devices and exit (default: false)
    */
@@ -610,33 +1526,160 @@ export class EviqoWebsocketConnection extends EventEmitter {
     try {
       // Skip init - official client doesn't send it
       await this.login();
-      await this.queryDevices();
+      const devicePages = await this.subscribeAll();
 
-      if (this.devices.length === 0) {
+      if (devicePages.length === 0) {
         throw new Error('No devices found');
       }
 
-      // Just first device for now
-      const device = this.devices[0];
-      if (device.deviceId === undefined) {
-        throw new Error('Device ID was not set');
+      // Updates arrive as events; wait here until the client is shut down
+      if (!justScan) {
+        await this.waitForShutdown();
       }
+    } finally {
+      if (!this.closeRequested) {
+        this.disconnect();
+      }
+    }
+  }
+
+  /**
+   * Wait until disconnect() is called or the connection is lost for good
+   *
+   * Dropped connections are re-established by the reconnect policy in the
+   * meantime, so only reconnectFailed ends the wait. With the policy
+   * disabled, the first close does.
+   */
+  private waitForShutdown(): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const done = () => {
+        this.off('disconnected', done);
+        this.off('reconnectFailed', done);
+        this.off('connectionClosed', closed);
+        resolve();
+      };
+      const closed = () => {
+        if (!this.reconnectPolicy.enabled) {
+          done();
+        }
+      };
 
-      this.devicePages.push(await this.requestChargingStatus(device.deviceId));
-      this.extractWidgetMappings(0, this.devicePages[0]);
-      await this.keepalive();
+      this.on('disconnected', done);
+      this.on('reconnectFailed', done);
+      this.on('connectionClosed', closed);
+    });
+  }
 
-      // Continue listening for any other messages
-      while (!justScan) {
-        await this.keepalive();
-        await this.listen(20);
+  /**
+   * Schedule a reconnect attempt according to the reconnect policy
+   */
+  private scheduleReconnect(): void {
+    if (!this.reconnectPolicy.enabled || this.reconnectTimer) {
+      return;
+    }
+
+    const { maxAttempts } = this.reconnectPolicy;
+    if (maxAttempts > 0 && this.reconnectAttempts >= maxAttempts) {
+      logger.error(`Giving up after ${this.reconnectAttempts} reconnect attempts`);
+      this.emit('reconnectFailed', { attempts: this.reconnectAttempts });
+      return;
+    }
+
+    const delay = computeBackoffDelay(
+      this.reconnectAttempts,
+      this.reconnectPolicy
+    );
+    this.reconnectAttempts += 1;
+    logger.info(
+      `Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})...`
+    );
+    this.emit('reconnecting', { attempt: this.reconnectAttempts, delay });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      // Failures are logged and rescheduled by resume()
+      this.resume().catch(() => undefined);
+    }, delay);
+  }
+
+  /**
+   * Re-establish the session after the connection dropped
+   *
+   * Re-runs login and device query, refetches the page of every device that
+   * had one before, and emits reconnected with the refreshed models. On
+   * failure the next attempt is scheduled, or reconnectFailed is emitted if
+   * the reconnect policy is disabled, and the error is rethrown.
+   */
+  private async resume(): Promise<void> {
+    this.resuming = true;
+
+    try {
+      if (!(await this.connect())) {
+        throw new Error('Failed to connect');
       }
-    } finally {
-      if (this.ws) {
-        this.ws.close();
-        logger.debug('Connection closed');
+      await this.login();
+      await this.syncDevices(this.subscribedAll);
+    } catch (error) {
+      logger.warn(`Reconnect attempt failed: ${error}`);
+      this.resuming = false;
+      if (!this.closeRequested) {
+        // Detach the socket first so its close handler does not schedule
+        // another attempt (or report the failure a second time)
+        const ws = this.ws;
+        this.ws = null;
+        this.stopKeepalive();
+        this.stopPageRefresh();
+        this.dispatcher.rejectAll(new ConnectionClosedError('Reconnect attempt failed'));
+        ws?.terminate();
+        if (this.reconnectPolicy.enabled) {
+          this.scheduleReconnect();
+        } else {
+          this.emit('reconnectFailed', { attempts: this.reconnectAttempts + 1 });
+        }
       }
+      throw error;
+    }
+
+    this.resuming = false;
+    this.reconnectAttempts = 0;
+    logger.info('Reconnected');
+    this.emit('reconnected', {
+      devices: this.registry.getDocs(),
+      devicePages: this.registry.getPages(),
+    });
+  }
+
+  /**
+   * Drop the current connection and re-establish the session right away
+   *
+   * Useful to refresh a long-lived session before the server expires it.
+   * Emits reconnected on success. On failure the reconnect policy applies
+   * (reconnectFailed is emitted if it is disabled).
+   *
+   * @throws Error if the connection or login fails
+   */
+  async reconnect(): Promise<void> {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
+
+    const ws = this.ws;
+    this.ws = null;
+    this.stopKeepalive();
+    this.stopPageRefresh();
+    this.dispatcher.rejectAll(new ConnectionClosedError('Reconnecting'));
+    ws?.close();
+
+    this.reconnectAttempts = 0;
+    await this.resume();
+  }
+
+  /**
+   * Check if a reconnect is scheduled or in progress
+   */
+  isReconnecting(): boolean {
+    return this.reconnectTimer !== null || this.resuming;
   }
 
   /**
@@ -646,18 +1689,79 @@ export class EviqoWebsocketConnection extends EventEmitter {
     return this.user;
   }
 
+  /**
+   * Get account information from the last login
+   */
+  getAccountInfo(): AccountInfo | null {
+    return this.user ? accountInfoFromUser(this.user) : null;
+  }
+
+  /**
+   * Get the organization the account belongs to
+   */
+  getOrganization(): Organization | null {
+    return this.user?.organization ?? null;
+  }
+
+  /**
+   * Get the number of other organizations shared with the account
+   */
+  getSharedOrgsCount(): number {
+    return this.user?.sharedOrgsCount ?? 0;
+  }
+
+  /**
+   * Get the cloud backend version reported at the last login
+   */
+  getServerVersion(): string | null {
+    return this.user?.serverVersion || null;
+  }
+
   /**
    * Get discovered devices
    */
   getDevices(): DeviceDocs[] {
-    return this.devices;
+    return this.registry.getDocs();
   }
 
   /**
    * Get device pages
+   *
+   * Datastream values are kept current as widget updates arrive.
    */
   getDevicePages(): EviqoDevicePageModel[] {
-    return this.devicePages;
+    return this.registry.getPages();
+  }
+
+  /**
+   * Get the device registry
+   *
+   * Looks up a device's docs, page and datastreams by deviceId, and
+   * datastreams by id, name or pin.
+   */
+  getDeviceRegistry(): DeviceRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Get a copy of a device's live state
+   *
+   * @param deviceId - Device ID
+   * @returns Snapshot of every known pin, or undefined if the device page was never fetched
+   */
+  getSnapshot(deviceId: string | number): DeviceSnapshot | undefined {
+    return this.state.getSnapshot(deviceId);
+  }
+
+  /**
+   * Get the latest value of a datastream
+   *
+   * @param deviceId - Device ID
+   * @param name - Datastream name (e.g. "Current max")
+   * @returns Latest value, or undefined if unknown
+   */
+  getValue(deviceId: string | number, name: string): string | undefined {
+    return this.state.getValue(deviceId, name);
   }
 
   /**
@@ -0,0 +1,153 @@
+/**
+ * Credential providers
+ *
+ * The server only needs the account email and calculateHash(email, password).
+ * A provider hands those to the client at login, so the plaintext password
+ * does not have to sit in the environment or in the client's memory.
+ */
+
+import { promises as fs } from 'fs';
+import { calculateHash } from './utils/hash';
+
+/**
+ * What the client sends at login
+ */
+export interface Credentials {
+  email: string;
+  /** calculateHash(email, password) */
+  hash: string;
+}
+
+/**
+ * Supplies credentials to the client, once per login
+ *
+ * May return synchronously or a promise.
+ */
+export interface CredentialProvider {
+  getCredentials(): Credentials | Promise<Credentials>;
+}
+
+/**
+ * Credentials from an email and password
+ *
+ * The password is hashed right away and not kept.
+ */
+export class PasswordCredentials implements CredentialProvider {
+  private credentials: Credentials;
+
+  constructor(email: string, password: string) {
+    this.credentials = { email, hash: calculateHash(email, password) };
+  }
+
+  getCredentials(): Credentials {
+    return { ...this.credentials };
+  }
+}
+
+/**
+ * Credentials from an email and a pre-computed hash
+ */
+export class HashCredentials implements CredentialProvider {
+  private credentials: Credentials;
+
+  constructor(email: string, hash: string) {
+    this.credentials = { email, hash };
+  }
+
+  getCredentials(): Credentials {
+    return { ...this.credentials };
+  }
+}
+
+/**
+ * Secret file read by FileCredentials: the password or a pre-computed hash
+ */
+export type CredentialFile = { passwordFile: string } | { hashFile: string };
+
+/**
+ * Credentials read from a secret file (Docker or Kubernetes secrets)
+ *
+ * The file is read at every login, so rotated secrets are picked up
+ * without a restart. A trailing newline is ignored.
+ */
+export class FileCredentials implements CredentialProvider {
+  readonly email: string;
+  readonly file: CredentialFile;
+
+  constructor(email: string, file: CredentialFile) {
+    this.email = email;
+    this.file = { ...file };
+  }
+
+  async getCredentials(): Promise<Credentials> {
+    if ('hashFile' in this.file) {
+      return { email: this.email, hash: await readSecret(this.file.hashFile) };
+    }
+    const password = await readSecret(this.file.passwordFile);
+    return { email: this.email, hash: calculateHash(this.email, password) };
+  }
+}
+
+/**
+ * Credentials returned by a callback, e.g. to fetch them from a vault
+ */
+export class CallbackCredentials implements CredentialProvider {
+  private callback: () => Credentials | Promise<Credentials>;
+
+  constructor(callback: () => Credentials | Promise<Credentials>) {
+    this.callback = callback;
+  }
+
+  getCredentials(): Credentials | Promise<Credentials> {
+    return this.callback();
+  }
+}
+
+/**
+ * Build a credential provider from environment variables
+ *
+ * Reads `<PREFIX>_EMAIL` and the first of `<PREFIX>_PASSWORD_HASH`,
+ * `<PREFIX>_PASSWORD_HASH_FILE`, `<PREFIX>_PASSWORD_FILE` and
+ * `<PREFIX>_PASSWORD` that is set.
+ *
+ * @param env - Environment to read (default: process.env)
+ * @param prefix - Variable name prefix (default: EVIQO)
+ * @returns The provider, or null if the email or every secret is missing
+ */
+export function credentialsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  prefix = 'EVIQO'
+): CredentialProvider | null {
+  const value = (name: string) => env[`${prefix}_${name}`] || undefined;
+  const email = value('EMAIL');
+  if (email === undefined) {
+    return null;
+  }
+
+  const hash = value('PASSWORD_HASH');
+  const hashFile = value('PASSWORD_HASH_FILE');
+  const passwordFile = value('PASSWORD_FILE');
+  const password = value('PASSWORD');
+
+  if (hash !== undefined) {
+    return new HashCredentials(email, hash);
+  }
+  if (hashFile !== undefined) {
+    return new FileCredentials(email, { hashFile });
+  }
+  if (passwordFile !== undefined) {
+    return new FileCredentials(email, { passwordFile });
+  }
+  if (password !== undefined) {
+    return new PasswordCredentials(email, password);
+  }
+  return null;
+}
+
+/**
+ * Read a secret file, dropping the trailing newline
+ */
+async function readSecret(path: string): Promise<string> {
+  const text = await fs.readFile(path, 'utf-8');
+  return text.replace(/\r?\n$/, '');
+}
@@ -0,0 +1,154 @@
+/**
+ * Writable datastreams
+ *
+ * Datastreams with a min/max range (sliders, steppers, menus), a switch
+ * visualization or a module's on/off toggle accept values written with the
+ * widget update command. Values are checked against the datastream's
+ * bounds before they are sent.
+ */
+
+import { ValidationError } from './errors';
+import {
+  DisplayDataStream,
+  EviqoDevicePageModel,
+  OnOffDataStream,
+  Visualization1,
+} from './models/device-page';
+
+/**
+ * Range of values a datastream accepts
+ */
+export interface DatastreamBounds {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * On/off datastreams of a page's modules, without those on the pin of a
+ * display datastream (the display datastream describes such a pin)
+ */
+function onOffDatastreams(page: EviqoDevicePageModel): OnOffDataStream[] {
+  const pins = new Set<string>();
+  for (const widget of page.dashboard.widgets) {
+    for (const module of widget.modules) {
+      for (const stream of module.displayDataStreams) {
+        pins.add(String(stream.pin));
+      }
+    }
+  }
+
+  const streams: OnOffDataStream[] = [];
+  for (const widget of page.dashboard.widgets) {
+    for (const module of widget.modules) {
+      const stream = module.onOffDataStream;
+      if (stream && !pins.has(String(stream.pin))) {
+        pins.add(String(stream.pin));
+        streams.push(stream);
+      }
+    }
+  }
+  return streams;
+}
+
+/**
+ * Datastreams of a device page: every module's display datastreams, then
+ * the on/off datastreams on pins no display datastream uses
+ *
+ * Each pin is listed by one datastream kind only, so maps keyed by pin do
+ * not depend on which kind comes last.
+ */
+export function pageDatastreams(
+  page: EviqoDevicePageModel
+): Array<DisplayDataStream | OnOffDataStream> {
+  const streams: Array<DisplayDataStream | OnOffDataStream> = [];
+  for (const widget of page.dashboard.widgets) {
+    for (const module of widget.modules) {
+      streams.push(...module.displayDataStreams);
+    }
+  }
+  streams.push(...onOffDatastreams(page));
+  return streams;
+}
+
+/**
+ * Whether a pin is the on/off datastream of one of the page's modules
+ *
+ * False for pins a display datastream also uses.
+ */
+export function isOnOffDatastream(page: EviqoDevicePageModel, pin: number | string): boolean {
+  return onOffDatastreams(page).some((stream) => String(stream.pin) === String(pin));
+}
+
+/**
+ * Bounds of a writable datastream
+ *
+ * Switches and on/off datastreams accept 0 and 1; other datastreams need a
+ * min/max range on their visualization. A missing or invalid step
+ * defaults to 1.
+ *
+ * @param onOff - Whether the datastream is a module's on/off datastream
+ * @returns Bounds, or null if the datastream is read-only
+ */
+export function getStreamBounds(
+  stream: DisplayDataStream | OnOffDataStream,
+  onOff = false
+): DatastreamBounds | null {
+  const visualization = stream.visualization as Visualization1;
+  if (onOff || visualization.type === 'SWITCH') {
+    return { min: 0, max: 1, step: 1 };
+  }
+
+  const { min, max, step } = visualization;
+  if (min === undefined || max === undefined || !(max >= min)) {
+    return null;
+  }
+  return { min, max, step: step !== undefined && step > 0 ? step : 1 };
+}
+
+/**
+ * Whether a datastream accepts written values
+ */
+export function isWritableStream(
+  stream: DisplayDataStream | OnOffDataStream,
+  onOff = false
+): boolean {
+  return getStreamBounds(stream, onOff) !== null;
+}
+
+/**
+ * Check a value against a datastream's bounds
+ *
+ * @param onOff - Whether the datastream is a module's on/off datastream
+ * @returns The value as sent to the device
+ * @throws ValidationError if the datastream is read-only, or the value is
+ * not a number, out of range or off-step
+ */
+export function validateStreamValue(
+  stream: DisplayDataStream | OnOffDataStream,
+  value: string | number,
+  onOff = false
+): string {
+  const bounds = getStreamBounds(stream, onOff);
+  const label = `"${stream.name}" (pin ${stream.pin})`;
+  if (!bounds) {
+    throw new ValidationError(`Datastream ${label} is read-only`);
+  }
+
+  const number = typeof value === 'number' ? value : Number(value.trim() || NaN);
+  if (!Number.isFinite(number)) {
+    throw new ValidationError(`Value for ${label} must be a number, got "${value}"`);
+  }
+  if (number < bounds.min || number > bounds.max) {
+    throw new ValidationError(
+      `Value ${number} for ${label} is out of range ${bounds.min}-${bounds.max}`
+    );
+  }
+  const steps = (number - bounds.min) / bounds.step;
+  if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+    throw new ValidationError(
+      `Value ${number} for ${label} is not a multiple of ${bounds.step} from ${bounds.min}`
+    );
+  }
+  return String(number);
+}
@@ -0,0 +1,206 @@
+/**
+ * Device registry
+ *
+ * Owns everything the client knows about each device, keyed by numeric
+ * deviceId: the device query entry, the page model and the widget maps
+ * used to resolve widget updates.
+ */
+
+import { isOnOffDatastream, pageDatastreams } from './datastream';
+import { DeviceDocs } from './models/device-query';
+import {
+  DisplayDataStream,
+  EviqoDevicePageModel,
+} from './models/device-page';
+
+/**
+ * A device known to the registry
+ */
+export interface RegisteredDevice {
+  deviceId: number;
+  /** Entry from the device query, if the device was listed */
+  docs?: DeviceDocs;
+  /** Device page, if it was fetched */
+  page?: EviqoDevicePageModel;
+  /** Datastreams keyed by datastream id */
+  streamsById: Map<string, DisplayDataStream>;
+  /** Datastreams keyed by name; display datastreams keep a name an on/off datastream shares */
+  streamsByName: Map<string, DisplayDataStream>;
+  /** Datastreams keyed by pin (widget updates carry the pin), on/off datastreams included */
+  streamsByPin: Map<string, DisplayDataStream>;
+}
+
+/**
+ * Registry of devices keyed by deviceId
+ */
+export class DeviceRegistry {
+  private devices: Map<number, RegisteredDevice> = new Map();
+
+  /**
+   * Replace the device list with the result of a device query
+   *
+   * Devices missing from the list lose their docs; devices with neither
+   * docs nor a page are dropped. Entries without a deviceId are ignored.
+   *
+   * @param docs - Devices returned by the query, in order
+   */
+  setDocs(docs: DeviceDocs[]): void {
+    const devices = new Map<number, RegisteredDevice>();
+
+    for (const entry of docs) {
+      if (entry.deviceId === undefined) {
+        continue;
+      }
+      const device =
+        this.devices.get(entry.deviceId) ?? createEntry(entry.deviceId);
+      device.docs = entry;
+      devices.set(entry.deviceId, device);
+    }
+
+    for (const [deviceId, device] of this.devices) {
+      if (!devices.has(deviceId) && device.page) {
+        device.docs = undefined;
+        devices.set(deviceId, device);
+      }
+    }
+
+    this.devices = devices;
+  }
+
+  /**
+   * Store a device page and rebuild the device's widget maps
+   *
+   * @param page - Device page model
+   * @returns The registered device
+   */
+  setPage(page: EviqoDevicePageModel): RegisteredDevice {
+    let device = this.devices.get(page.id);
+    if (!device) {
+      device = createEntry(page.id);
+      this.devices.set(page.id, device);
+    }
+
+    device.page = page;
+    device.streamsById = new Map();
+    device.streamsByName = new Map();
+    device.streamsByPin = new Map();
+
+    // Display datastreams come first and keep their name when an on/off
+    // datastream has the same one
+    for (const stream of pageDatastreams(page)) {
+      device.streamsById.set(String(stream.id), stream);
+      if (!device.streamsByName.has(stream.name)) {
+        device.streamsByName.set(stream.name, stream);
+      }
+      device.streamsByPin.set(String(stream.pin), stream);
+    }
+    return device;
+  }
+
+  /**
+   * Get a device
+   */
+  get(deviceId: number | string): RegisteredDevice | undefined {
+    return this.devices.get(Number(deviceId));
+  }
+
+  /**
+   * Check whether a device is registered
+   */
+  has(deviceId: number | string): boolean {
+    return this.devices.has(Number(deviceId));
+  }
+
+  /**
+   * Forget a device
+   */
+  remove(deviceId: number | string): void {
+    this.devices.delete(Number(deviceId));
+  }
+
+  /**
+   * Forget every device
+   */
+  clear(): void {
+    this.devices.clear();
+  }
+
+  /**
+   * IDs of all registered devices
+   */
+  ids(): number[] {
+    return Array.from(this.devices.keys());
+  }
+
+  /**
+   * All registered devices
+   */
+  list(): RegisteredDevice[] {
+    return Array.from(this.devices.values());
+  }
+
+  /**
+   * Query entries of devices listed by the last device query
+   */
+  getDocs(): DeviceDocs[] {
+    return this.list()
+      .map((device) => device.docs)
+      .filter((docs): docs is DeviceDocs => docs !== undefined);
+  }
+
+  /**
+   * Pages of devices that have been fetched
+   */
+  getPages(): EviqoDevicePageModel[] {
+    return this.list()
+      .map((device) => device.page)
+      .filter((page): page is EviqoDevicePageModel => page !== undefined);
+  }
+
+  /**
+   * Look up a datastream by its id
+   */
+  getStreamById(
+    deviceId: number | string,
+    streamId: number | string
+  ): DisplayDataStream | undefined {
+    return this.get(deviceId)?.streamsById.get(String(streamId));
+  }
+
+  /**
+   * Look up a datastream by its name
+   */
+  getStreamByName(
+    deviceId: number | string,
+    name: string
+  ): DisplayDataStream | undefined {
+    return this.get(deviceId)?.streamsByName.get(name);
+  }
+
+  /**
+   * Whether a pin is a module's on/off datastream on the device page
+   */
+  isOnOffStream(deviceId: number | string, pin: number | string): boolean {
+    const page = this.get(deviceId)?.page;
+    return page !== undefined && isOnOffDatastream(page, pin);
+  }
+
+  /**
+   * Look up a datastream by its pin
+   */
+  getStreamByPin(
+    deviceId: number | string,
+    pin: number | string
+  ): DisplayDataStream | undefined {
+    return this.get(deviceId)?.streamsByPin.get(String(pin));
+  }
+}
+
+function createEntry(deviceId: number): RegisteredDevice {
+  return {
+    deviceId,
+    streamsById: new Map(),
+    streamsByName: new Map(),
+    streamsByPin: new Map(),
+  };
+}
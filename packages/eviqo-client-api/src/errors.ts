@@ -0,0 +1,132 @@
+/**
+ * Error classes raised by the Eviqo client
+ *
+ * Requests rejected by the server carry the Blynk-style status code from
+ * the RESPONSE frame; responseError() maps each code to the matching class
+ * so callers can use instanceof instead of comparing numbers.
+ */
+
+import { ResponseCode } from './utils/codec';
+
+/**
+ * Base class for every error raised by the client
+ */
+export class EviqoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The server answered a request with a non-OK status code
+ */
+export class ResponseError extends EviqoError {
+  /** Status code from the RESPONSE frame */
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+/**
+ * Login was refused, or the session is not (or no longer) authenticated
+ */
+export class AuthenticationError extends ResponseError {}
+
+/**
+ * The account is not allowed to perform the request
+ */
+export class NotAllowedError extends ResponseError {}
+
+/**
+ * The device is not connected to the cloud
+ */
+export class DeviceOfflineError extends ResponseError {}
+
+/**
+ * The server did not understand the command or its body
+ */
+export class IllegalCommandError extends ResponseError {}
+
+/**
+ * Too many requests; the server is throttling the account
+ */
+export class QuotaExceededError extends ResponseError {}
+
+/**
+ * The server failed while handling the request
+ */
+export class ServerError extends ResponseError {}
+
+/**
+ * No reply arrived in time
+ *
+ * Raised for local request timeouts (code is undefined) and for the
+ * server's own timeout status.
+ */
+export class TimeoutError extends EviqoError {
+  readonly code?: number;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.code = code;
+  }
+}
+
+/**
+ * The connection closed before the reply arrived
+ */
+export class ConnectionClosedError extends EviqoError {}
+
+/**
+ * A value was rejected before it was sent to the device
+ */
+export class ValidationError extends EviqoError {}
+
+/**
+ * The charger is not in a state that allows the requested action
+ */
+export class ChargerStateError extends EviqoError {}
+
+const RESPONSE_ERRORS: Partial<
+  Record<ResponseCode, new (code: number, message: string) => ResponseError>
+> = {
+  [ResponseCode.QUOTA_LIMIT]: QuotaExceededError,
+  [ResponseCode.ILLEGAL_COMMAND]: IllegalCommandError,
+  [ResponseCode.ILLEGAL_COMMAND_BODY]: IllegalCommandError,
+  [ResponseCode.USER_NOT_REGISTERED]: AuthenticationError,
+  [ResponseCode.USER_NOT_AUTHENTICATED]: AuthenticationError,
+  [ResponseCode.INVALID_TOKEN]: AuthenticationError,
+  [ResponseCode.NOT_ALLOWED]: NotAllowedError,
+  [ResponseCode.DEVICE_NOT_IN_NETWORK]: DeviceOfflineError,
+  [ResponseCode.DEVICE_WENT_OFFLINE]: DeviceOfflineError,
+  [ResponseCode.SERVER_ERROR]: ServerError,
+};
+
+/**
+ * Build the error for a status code returned in reply to a request
+ *
+ * @param code - Status code from the RESPONSE frame
+ * @param description - Description of the request, for the message
+ * @returns Error to reject the request with, or null for OK
+ */
+export function responseError(
+  code: number,
+  description: string
+): EviqoError | null {
+  if (code === ResponseCode.OK) {
+    return null;
+  }
+
+  const name = ResponseCode[code] ?? 'UNKNOWN';
+  const message = `${description} failed: ${name} (code ${code})`;
+  if (code === ResponseCode.TIMEOUT) {
+    return new TimeoutError(message, code);
+  }
+
+  const ErrorClass = RESPONSE_ERRORS[code as ResponseCode] ?? ResponseError;
+  return new ErrorClass(code, message);
+}
@@ -8,7 +8,113 @@
  */
 
 // Main client
-export { EviqoWebsocketConnection, WS_URL } from './client';
+export {
+  EviqoWebsocketConnection,
+  WS_URL,
+  KEEPALIVE_INTERVAL,
+  DEFAULT_DEVICE_PAGE_SIZE,
+  DEFAULT_COMMAND_TIMEOUT,
+  DEFAULT_USER_AGENT,
+  DEFAULT_CLIENT_VERSION,
+  DEFAULT_LOCALE,
+  deriveHttpOrigin,
+} from './client';
+
+// Errors
+export {
+  EviqoError,
+  ResponseError,
+  AuthenticationError,
+  NotAllowedError,
+  DeviceOfflineError,
+  IllegalCommandError,
+  QuotaExceededError,
+  ServerError,
+  TimeoutError,
+  ConnectionClosedError,
+  ValidationError,
+  ChargerStateError,
+  responseError,
+} from './errors';
+
+// Account information
+export { accountInfoFromUser } from './account';
+export type { AccountInfo, OrganizationInfo } from './account';
+
+// Credentials
+export {
+  PasswordCredentials,
+  HashCredentials,
+  FileCredentials,
+  CallbackCredentials,
+  credentialsFromEnv,
+} from './credentials';
+export type {
+  Credentials,
+  CredentialProvider,
+  CredentialFile,
+} from './credentials';
+
+// Session persistence
+export {
+  MemorySessionStore,
+  FileSessionStore,
+  SESSION_COOKIE,
+  sessionCookieHeader,
+} from './session-store';
+export type { SessionStore, StoredSession } from './session-store';
+
+// Device registry
+export { DeviceRegistry } from './device-registry';
+export type { RegisteredDevice } from './device-registry';
+
+// Writable datastreams
+export {
+  getStreamBounds,
+  isWritableStream,
+  validateStreamValue,
+  pageDatastreams,
+  isOnOffDatastream,
+} from './datastream';
+export type { DatastreamBounds } from './datastream';
+
+// Device page diffing
+export { diffDevicePages, hasPageChanges } from './page-diff';
+export type {
+  DevicePageDiff,
+  DatastreamChange,
+  HardwareInfoChange,
+  ValueChange,
+} from './page-diff';
+
+// Live device state
+export { DeviceStateStore } from './state-store';
+export type { DeviceSnapshot, PinState, StateChange } from './state-store';
+
+// Charger control
+export {
+  EviqoCharger,
+  ChargerStatus,
+  CHARGER_CONTROL_PIN,
+  CHARGER_CURRENT_PIN,
+  DEFAULT_SEQUENCE_DELAY,
+  chargerStatusLabel,
+  parseChargerStatus,
+} from './charger';
+export type { ChargerOptions } from './charger';
+
+// Charging sessions
+export {
+  SessionTracker,
+  parseSessionDuration,
+  sessionsToCsv,
+  sessionsToJson,
+} from './session-tracker';
+export type {
+  ChargingSession,
+  BackfillOptions,
+  SessionTrackerEvents,
+} from './session-tracker';
 
 // Models
 export type {
@@ -40,8 +146,37 @@ export type {
   EviqoDevicePageModel,
 } from './models/device-page';
 
-export type { DeviceDocs, EviqoDeviceQueryModel } from './models/device-query';
+export type {
+  DeviceDocs,
+  DeviceQueryFilter,
+  DeviceQueryOptions,
+  EviqoDeviceQueryModel,
+} from './models/device-query';
 export type { WidgetUpdate } from './models/widget-update';
+export type {
+  DatastreamHistory,
+  EviqoGraphDataModel,
+  HistoryGranularity,
+  HistoryOptions,
+  HistoryPoint,
+} from './models/history';
+export type {
+  ConnectionClosedEvent,
+  CommandSentEvent,
+  CommandConfirmedEvent,
+  CommandFailedEvent,
+  StateChangedEvent,
+  DeviceAddedEvent,
+  DeviceRemovedEvent,
+  DeviceChangedEvent,
+  AccountUpdatedEvent,
+  ServerVersionChangedEvent,
+  EviqoClientEvents,
+  ReconnectingEvent,
+  ReconnectedEvent,
+  ReconnectFailedEvent,
+} from './models/events';
+export type { EviqoClientOptions } from './models/options';
 
 // Utilities
 export { calculateHash } from './utils/hash';
@@ -52,6 +187,68 @@ export {
   createBinaryMessage,
   createCommandMessage,
 } from './utils/protocol';
+export {
+  computeBackoffDelay,
+  resolveReconnectPolicy,
+  DEFAULT_RECONNECT_POLICY,
+} from './utils/backoff';
+export type { ReconnectPolicy } from './utils/backoff';
+export {
+  RequestDispatcher,
+  DEFAULT_REQUEST_TIMEOUT,
+} from './utils/dispatcher';
+export {
+  Command,
+  ResponseCode,
+  commandName,
+  decodeMessage,
+  encodeMessage,
+  fixedMessageId,
+  isKnownCommand,
+} from './utils/codec';
+export type {
+  FrameHeader,
+  EviqoMessage,
+  KnownMessage,
+  OutgoingMessage,
+  UnknownMessage,
+  ResponseMessage,
+  InitMessage,
+  LoginMessage,
+  DeviceQueryMessage,
+  SelectDeviceMessage,
+  DevicePageMessage,
+  GraphDataMessage,
+  KeepaliveMessage,
+  WidgetUpdateMessage,
+  InitRequest,
+  LoginRequest,
+  DeviceQueryRequest,
+  DevicePageRequest,
+  GraphDataRequest,
+  PinWrite,
+} from './utils/codec';
+
+// Mock server for offline testing
+export {
+  EviqoMockServer,
+  createMockDevice,
+} from './mock/server';
+export type {
+  MockDevice,
+  MockServerOptions,
+  ScriptedUpdate,
+  ReceivedCommand,
+  CommandReply,
+} from './mock/server';
+export {
+  createMockUser,
+  createMockDeviceDocs,
+  createMockDevicePage,
+  MOCK_EMAIL,
+  MOCK_PASSWORD,
+  MOCK_PAGE_ID,
+} from './mock/fixtures';
 
 // Re-export types
 export type { MessageHeader, ParsedMessage } from './utils/protocol';
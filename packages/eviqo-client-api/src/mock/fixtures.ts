@@ -0,0 +1,296 @@
+/**
+ * Canned Eviqo models served by the mock server
+ */
+
+import { DeviceDocs } from '../models/device-query';
+import {
+  DisplayDataStream,
+  EviqoDevicePageModel,
+} from '../models/device-page';
+import { EviqoUserModel } from '../models/user';
+
+export const MOCK_EMAIL = 'user@example.com';
+export const MOCK_PASSWORD = 'password123';
+export const MOCK_PAGE_ID = 17948;
+
+/**
+ * Build a user model for the given email
+ */
+export function createMockUser(email = MOCK_EMAIL): EviqoUserModel {
+  return {
+    user: {
+      id: 1001,
+      roleId: 2,
+      email,
+      tz: 'America/New_York',
+      locale: 'en_US',
+      orgId: 501,
+      status: 'Active',
+      lastLoggedAt: 1735689600000,
+      registeredAt: 1704067200000,
+      ipInfo: {
+        ip: '127.0.0.1',
+        country: 'US',
+        isoStateCode: 'NY',
+        lat: 40.7,
+        lon: -74.0,
+      },
+      country: 'US',
+      phoneNumber: '',
+      customFields: {},
+      isDev: false,
+      isDarkMode: false,
+      address: {},
+    },
+    organization: {
+      id: 501,
+      name: 'Mock Org',
+      type: 'CUSTOMER',
+      tz: 'America/New_York',
+      lastModifiedTs: 1735689600000,
+      parentId: 1,
+      parentOrgName: 'Eviqo',
+      roles: [
+        {
+          id: 2,
+          name: 'Admin',
+          permissionGroup1: 0,
+          permissionGroup2: 0,
+          permissionGroup3: 0,
+          permissionGroup4: 0,
+        },
+      ],
+      hierarchy: [1, 501],
+      deviceCount: 1,
+      childrenCount: 0,
+      userCount: 1,
+      totalUserCount: 1,
+      templatesCount: 0,
+      hasAnalytic: false,
+      address: {
+        fullAddress: '',
+        city: '',
+        country: 'US',
+        state: '',
+        zip: '',
+      },
+      phoneNumber: '',
+      areAutomationConditionsEnabled: false,
+      areAutomationActionsEnabled: false,
+      hasAutomations: false,
+      hasProductWithContentEvent: false,
+      hasEventAnalyticsDashboards: false,
+      smsSettings: { enabled: false, provider: '' },
+      isShared: false,
+    },
+    role: {
+      id: 2,
+      name: 'Admin',
+      permissionGroup1: 0,
+      permissionGroup2: 0,
+      permissionGroup3: 0,
+      permissionGroup4: 0,
+    },
+    showSurvey: false,
+    generalSettings: {
+      appName: 'Eviqo',
+      locationTerm: 'Location',
+      isGeoCloud: false,
+      isBillingEnabled: false,
+      allowedClientTypes: ['web'],
+      allowRegisterFrom: [],
+      theme: 'light',
+      period: 'MONTH',
+      websiteUrl: 'https://eviqo.io',
+      docsUrl: '',
+      defaultRoleId: 2,
+      isFleetEnabled: false,
+      isDREnabled: false,
+      isRuleEngineEnabled: false,
+      isInAppCampaignsEnabled: false,
+      isSharingEnabled: false,
+      isInviteWithoutVerificationEnabled: false,
+      useOldReportingFormat: false,
+      isTranslationEnabled: false,
+      isBLEAssistEnabled: false,
+      isBlueprintsEnabled: false,
+      isImageStreamingEnabled: false,
+      isUnitConversionEnabled: false,
+      isHealthCheckWorkerEnabled: false,
+      isShipmentsMobileDownloadEnabled: false,
+      isOrgDataStoragePeriodEnabled: false,
+      isMobileConnectedRuleEnabled: false,
+      isUserInMultipleOrganizationsEnabled: false,
+      isCustomDataEnabled: false,
+      isCustomRolesEnabled: false,
+      isRawStringStorageEnabled: false,
+      isAiEnabled: false,
+      isDecodersEnabled: false,
+      isWLBillingEnabled: false,
+      isManagementApiEnabled: false,
+    },
+    mapboxToken: '',
+    hasSimCardInfo: false,
+    deviceFileStorageEnabled: false,
+    serverVersion: '0.98.2-mock',
+    sharedOrgsCount: 0,
+  };
+}
+
+/**
+ * Build the device query entry for a device
+ */
+export function createMockDeviceDocs(
+  deviceId: number,
+  name = `Mock Charger ${deviceId}`
+): DeviceDocs {
+  return {
+    isSharedWithUser: false,
+    orgId: 501,
+    templateId: 'TMPLmock',
+    name,
+    token: `token-${deviceId}`,
+    deviceId,
+    productId: 42,
+    ownerId: 1001,
+    productName: 'Eviqo EV Charger',
+    isLocked: false,
+    email: MOCK_EMAIL,
+    userId: 1001,
+    icon: 'ev-station',
+    color: '#00AAFF',
+    type: 'DEVICE',
+  };
+}
+
+function stream(
+  id: number,
+  name: string,
+  pin: number,
+  value: string,
+  extra: Partial<DisplayDataStream['visualization']> = {}
+): DisplayDataStream {
+  return {
+    id,
+    name,
+    pin,
+    units: 'None',
+    visualization: { type: 'VALUE', value, ...extra },
+  };
+}
+
+/**
+ * Build a device page with the datastreams an Eviqo charger reports
+ */
+export function createMockDevicePage(
+  deviceId: number,
+  name = `Mock Charger ${deviceId}`
+): EviqoDevicePageModel {
+  const lifecycleStatus = {
+    name: 'Active',
+    icon: 'check',
+    color: '#00FF00',
+    type: 'ACTIVE',
+  };
+
+  return {
+    id: deviceId,
+    productId: 42,
+    orgId: 501,
+    name,
+    token: `token-${deviceId}`,
+    updatedAt: 1735689600000,
+    status: 'ONLINE',
+    lifecycleStatus,
+    activatedAt: 1704067200000,
+    activatedBy: MOCK_EMAIL,
+    disconnectTime: 0,
+    ipInfo: {
+      ip: '127.0.0.1',
+      country: 'US',
+      isoStateCode: 'NY',
+      lat: 40.7,
+      lon: -74.0,
+    },
+    metadataUpdatedAt: 1735689600000,
+    lastReportedAt: 1735689600000,
+    connectTime: 1735689600000,
+    iconName: 'ev-station',
+    color: 0,
+    metaFields: [],
+    productName: 'Eviqo EV Charger',
+    productLogoUrl: '',
+    orgName: 'Mock Org',
+    ownerEmail: MOCK_EMAIL,
+    ownerId: 1001,
+    ownerOrgId: 501,
+    hardwareInfo: {
+      version: '1.0.0',
+      fwType: 'ESP32',
+      blynkVersion: '1.3.2',
+      build: 'Jan  1 2025 00:00:00',
+      templateId: 'TMPLmock',
+      heartbeatInterval: 45,
+      buffIn: 1024,
+      type: 'ESP32',
+    },
+    productHierarchy: [42],
+    locationId: 0,
+    isSsl: true,
+    showOnMap: false,
+    originalProductOrgId: 1,
+    automationsCount: 0,
+    tabPages: [{ id: MOCK_PAGE_ID, name: 'Dashboard', hideTimeRange: true }],
+    dashboard: {
+      hideTimeRange: true,
+      lifecycleStatus,
+      widgets: [
+        {
+          type: 'VALUE_DISPLAY',
+          id: 1,
+          x: 0,
+          y: 0,
+          width: 4,
+          height: 2,
+          isDisabled: false,
+          isHidden: false,
+          alignment: 'LEFT',
+          modules: [
+            {
+              name: 'Charger',
+              backgroundColor: '#FFFFFF',
+              onOffDataStream: {
+                id: 120,
+                name: 'Schedule',
+                pin: 20,
+                units: 'None',
+                visualization: { type: 'SWITCH', value: '0' },
+              },
+              displayDataStreams: [
+                stream(101, 'Status', 2, '1'),
+                stream(102, 'Voltage', 5, '241.29'),
+                stream(103, 'Amperage', 6, '0.0'),
+                stream(104, 'Power', 7, '0.00'),
+                stream(105, 'Current', 3, '32', {
+                  min: 6,
+                  max: 48,
+                  step: 1,
+                  units: 'A',
+                }),
+                stream(106, 'Current max', 4, '48'),
+                stream(107, 'Session duration', 8, '00:00:00'),
+                stream(108, 'Session power', 9, '0'),
+                stream(109, 'Session cost', 10, '0.00'),
+              ],
+            },
+          ],
+        },
+      ],
+    },
+    templateId: 'TMPLmock',
+    tz: 'America/New_York',
+    connectionType: 'WIFI',
+    isSharedWithUser: false,
+    isLocked: false,
+  };
+}
@@ -0,0 +1,569 @@
+/**
+ * Mock Eviqo cloud server
+ *
+ * Serves the login page cookie over HTTP and speaks the 4-byte-header
+ * websocket protocol through utils/codec.ts, so the client and the MQTT
+ * gateway can be exercised without the real cloud. Usable from Jest or as
+ * a standalone dev server (see examples/mock-server.ts).
+ */
+
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Duplex } from 'stream';
+import WebSocket, { WebSocketServer } from 'ws';
+import { calculateHash } from '../utils/hash';
+import { logger } from '../utils/logger';
+import {
+  Command,
+  decodeMessage,
+  DevicePageRequest,
+  DeviceQueryRequest,
+  encodeMessage,
+  FrameHeader,
+  GraphDataRequest,
+  LoginRequest,
+  OutgoingMessage,
+  ResponseCode,
+} from '../utils/codec';
+import { DeviceDocs } from '../models/device-query';
+import { EviqoDevicePageModel } from '../models/device-page';
+import { EviqoUserModel } from '../models/user';
+import { HistoryPoint } from '../models/history';
+import {
+  createMockDeviceDocs,
+  createMockDevicePage,
+  createMockUser,
+  MOCK_EMAIL,
+  MOCK_PASSWORD,
+} from './fixtures';
+
+const SESSION_COOKIE = 'SESSION';
+
+/**
+ * A device served by the mock server
+ */
+export interface MockDevice {
+  docs: DeviceDocs;
+  /** Page of the main (first) tab, also served when no pageId is given */
+  page: EviqoDevicePageModel;
+  /** Pages of the other tabs, keyed by tab id */
+  tabs?: Record<number, EviqoDevicePageModel>;
+  /** Stored datastream values keyed by pin, served as chart data */
+  history?: Record<number, HistoryPoint[]>;
+}
+
+/**
+ * Mock server options
+ */
+export interface MockServerOptions {
+  /** Interface to listen on (default: 127.0.0.1) */
+  host?: string;
+  /** Port to listen on (default: 0, pick a free port) */
+  port?: number;
+  /** Account email accepted at login */
+  email?: string;
+  /** Account password accepted at login */
+  password?: string;
+  /** User model returned on login */
+  user?: EviqoUserModel;
+  /** Devices on the account (default: one charger with id 51627) */
+  devices?: MockDevice[];
+  /** How widget commands are answered (default: ack) */
+  commandReply?: CommandReply;
+}
+
+/**
+ * How the mock server answers widget commands
+ *
+ * - `ack`: status OK for the message id, then the device reports the value
+ * - `update`: no acknowledgement, only the device report
+ * - `none`: the command is recorded but never answered
+ */
+export type CommandReply = 'ack' | 'update' | 'none';
+
+/**
+ * One step of a scripted widget update stream
+ */
+export interface ScriptedUpdate {
+  /** Delay before this update is sent (ms) */
+  delay: number;
+  deviceId: number;
+  pin: number | string;
+  value: string;
+}
+
+/**
+ * Widget command received from a client
+ */
+export interface ReceivedCommand {
+  deviceId: string;
+  pin: string;
+  value: string;
+  messageId: number;
+  time: Date;
+}
+
+/**
+ * Build the default mock device for an id
+ */
+export function createMockDevice(deviceId: number, name?: string): MockDevice {
+  return {
+    docs: createMockDeviceDocs(deviceId, name),
+    page: createMockDevicePage(deviceId, name),
+  };
+}
+
+/**
+ * Mock Eviqo cloud server
+ *
+ * Emits `connection` (request headers) for each websocket handshake and
+ * `command` (ReceivedCommand) for each widget command.
+ *
+ * @example
+ * ```typescript
+ * const server = new EviqoMockServer();
+ * await server.start();
+ * const client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD);
+ * // ...
+ * await server.stop();
+ * ```
+ */
+export class EviqoMockServer extends EventEmitter {
+  readonly commands: ReceivedCommand[] = [];
+  readonly pageRequests: DevicePageRequest[] = [];
+  /** How widget commands are answered; can be changed at any time */
+  commandReply: CommandReply;
+  /** User model returned on login; can be changed at any time */
+  user: EviqoUserModel;
+  /** Number of successful credential logins */
+  loginCount = 0;
+  private host: string;
+  private requestedPort: number;
+  private email: string;
+  private password: string;
+  private devices: Map<number, MockDevice> = new Map();
+  // Session cookies handed out by the login page
+  private sessions: Set<string> = new Set();
+  // Session cookies a login has authenticated; new connections with them start logged in
+  private authenticatedSessions: Set<string> = new Set();
+  private httpServer: Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private clients: Set<WebSocket> = new Set();
+
+  constructor(options: MockServerOptions = {}) {
+    super();
+    this.host = options.host ?? '127.0.0.1';
+    this.requestedPort = options.port ?? 0;
+    this.email = options.email ?? MOCK_EMAIL;
+    this.password = options.password ?? MOCK_PASSWORD;
+    this.user = options.user ?? createMockUser(this.email);
+    this.commandReply = options.commandReply ?? 'ack';
+
+    for (const device of options.devices ?? [createMockDevice(51627)]) {
+      this.addDevice(device);
+    }
+  }
+
+  /**
+   * Start listening
+   */
+  async start(): Promise<void> {
+    this.httpServer = createServer((req, res) => {
+      if (req.method === 'GET' && req.url?.startsWith('/dashboard/login')) {
+        const session = randomBytes(16).toString('hex');
+        this.sessions.add(session);
+        res.writeHead(200, {
+          'Content-Type': 'text/html',
+          'Set-Cookie': `${SESSION_COOKIE}=${session}; Path=/; HttpOnly`,
+        });
+        res.end('<html><body>Eviqo mock login</body></html>');
+        return;
+      }
+      res.writeHead(404);
+      res.end();
+    });
+
+    this.wss = new WebSocketServer({ noServer: true });
+    this.httpServer.on('upgrade', (req, socket, head) => {
+      this.handleUpgrade(req, socket, head);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.requestedPort, this.host, () => {
+        this.httpServer!.removeListener('error', reject);
+        resolve();
+      });
+    });
+
+    logger.debug(`Mock Eviqo server listening on ${this.origin}`);
+  }
+
+  /**
+   * Close all connections and stop listening
+   */
+  async stop(): Promise<void> {
+    for (const client of this.clients) {
+      client.terminate();
+    }
+    this.clients.clear();
+
+    if (this.wss) {
+      this.wss.close();
+      this.wss = null;
+    }
+
+    if (this.httpServer) {
+      const server = this.httpServer;
+      this.httpServer = null;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Port the server is listening on
+   */
+  get port(): number {
+    if (!this.httpServer) {
+      throw new Error('Mock server is not running');
+    }
+    return (this.httpServer.address() as AddressInfo).port;
+  }
+
+  /**
+   * HTTP origin of the server
+   */
+  get origin(): string {
+    return `http://${this.host}:${this.port}`;
+  }
+
+  /**
+   * URL of the login page that hands out the session cookie
+   */
+  get loginUrl(): string {
+    return `${this.origin}/dashboard/login`;
+  }
+
+  /**
+   * Websocket URL
+   */
+  get url(): string {
+    return `ws://${this.host}:${this.port}/dashws`;
+  }
+
+  /**
+   * Add (or replace) a device on the account
+   */
+  addDevice(device: MockDevice): void {
+    this.devices.set(device.page.id, device);
+  }
+
+  /**
+   * Remove a device from the account
+   */
+  removeDevice(deviceId: number): void {
+    this.devices.delete(deviceId);
+  }
+
+  /**
+   * Get a served device
+   */
+  getDevice(deviceId: number): MockDevice | undefined {
+    return this.devices.get(deviceId);
+  }
+
+  /**
+   * Push a widget update to all connected clients
+   *
+   * The value is also stored on the device page so later page fetches
+   * return it.
+   */
+  pushWidgetUpdate(deviceId: number, pin: number | string, value: string): void {
+    this.setPinValue(deviceId, String(pin), value);
+
+    const frame = encodeMessage(
+      {
+        command: Command.WIDGET_UPDATE,
+        update: { deviceId: String(deviceId), kind: 'vw', pin: String(pin), value },
+      },
+      0x00
+    );
+    for (const client of this.clients) {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(frame);
+      }
+    }
+  }
+
+  /**
+   * Replay a scripted widget update stream
+   *
+   * @param script - Updates to send, each after its own delay
+   */
+  async playScript(script: ScriptedUpdate[]): Promise<void> {
+    for (const step of script) {
+      if (step.delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, step.delay));
+      }
+      this.pushWidgetUpdate(step.deviceId, step.pin, step.value);
+    }
+  }
+
+  /**
+   * Drop every websocket connection without a close handshake
+   */
+  dropConnections(): void {
+    for (const client of this.clients) {
+      client.terminate();
+    }
+    this.clients.clear();
+  }
+
+  /**
+   * Log out every session; their cookies are still accepted, but new
+   * connections must log in again
+   */
+  expireSessions(): void {
+    this.authenticatedSessions.clear();
+  }
+
+  /**
+   * Accept the websocket upgrade if the request carries a known session cookie
+   */
+  private handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = req.url ?? '';
+    const cookies = parseCookies(req.headers.cookie);
+
+    if (!url.startsWith('/dashws')) {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      return;
+    }
+    if (!this.sessions.has(cookies[SESSION_COOKIE])) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      return;
+    }
+
+    this.wss!.handleUpgrade(req, socket, head, (ws) => {
+      this.clients.add(ws);
+      this.emit('connection', req.headers);
+
+      const session = cookies[SESSION_COOKIE];
+      const connection = { session, authenticated: this.authenticatedSessions.has(session) };
+      ws.on('message', (data: WebSocket.Data) => {
+        if (data instanceof Buffer) {
+          this.handleFrame(ws, connection, data);
+        }
+      });
+      ws.on('close', () => {
+        this.clients.delete(ws);
+      });
+    });
+  }
+
+  /**
+   * Handle one inbound frame from a client
+   */
+  private handleFrame(
+    ws: WebSocket,
+    connection: { session: string; authenticated: boolean },
+    data: Buffer
+  ): void {
+    const message = decodeMessage(data);
+    if (!message) {
+      return;
+    }
+
+    const { header } = message;
+    const messageId = header.messageId;
+
+    // Everything except init, login and keepalive needs an authenticated session
+    const open = [Command.INIT, Command.LOGIN, Command.KEEPALIVE].includes(
+      header.command
+    );
+    if (!open && !connection.authenticated) {
+      this.sendResponse(ws, messageId, ResponseCode.USER_NOT_AUTHENTICATED);
+      return;
+    }
+
+    switch (message.command) {
+      case Command.INIT:
+        this.reply(ws, header, { command: Command.INIT, body: {} });
+        break;
+
+      case Command.LOGIN: {
+        const login = message.body as Partial<LoginRequest>;
+        const expected = calculateHash(this.email, this.password);
+        if (
+          typeof login.email === 'string' &&
+          login.email.toLowerCase() === this.email.toLowerCase() &&
+          login.hash === expected
+        ) {
+          connection.authenticated = true;
+          this.authenticatedSessions.add(connection.session);
+          this.loginCount++;
+          this.reply(ws, header, { command: Command.LOGIN, body: this.user });
+        } else {
+          this.sendResponse(ws, messageId, ResponseCode.USER_NOT_AUTHENTICATED);
+        }
+        break;
+      }
+
+      case Command.KEEPALIVE:
+        this.sendResponse(ws, messageId, ResponseCode.OK);
+        break;
+
+      case Command.DEVICE_QUERY: {
+        const query = message.body as Partial<DeviceQueryRequest>;
+        const offset = typeof query.offset === 'number' ? query.offset : 0;
+        const limit = typeof query.limit === 'number' ? query.limit : 17;
+        const all = Array.from(this.devices.values());
+        this.reply(ws, header, {
+          command: Command.DEVICE_QUERY,
+          body: {
+            count: all.length,
+            docs: all
+              .slice(offset, offset + limit)
+              .map((device) => [device.page.id, device.docs]),
+          },
+        });
+        break;
+      }
+
+      case Command.SELECT_DEVICE:
+        if (this.devices.has(Number(message.deviceId))) {
+          this.sendResponse(ws, messageId, ResponseCode.OK);
+        } else {
+          this.sendResponse(ws, messageId, ResponseCode.ILLEGAL_COMMAND_BODY);
+        }
+        break;
+
+      case Command.DEVICE_PAGE: {
+        const request = message.body as DevicePageRequest;
+        this.pageRequests.push(request);
+        const device = this.devices.get(Number(request.deviceId));
+        const page =
+          request.pageId === null || request.pageId === String(device?.page.tabPages[0]?.id)
+            ? device?.page
+            : device?.tabs?.[Number(request.pageId)];
+        if (page) {
+          this.reply(ws, header, { command: Command.DEVICE_PAGE, body: page });
+        } else {
+          this.sendResponse(ws, messageId, ResponseCode.ILLEGAL_COMMAND_BODY);
+        }
+        break;
+      }
+
+      case Command.GRAPH_DATA: {
+        const request = message.body as GraphDataRequest;
+        const device = this.devices.get(Number(request.deviceId));
+        if (!device) {
+          this.sendResponse(ws, messageId, ResponseCode.ILLEGAL_COMMAND_BODY);
+          break;
+        }
+
+        // Every granularity is served as raw values
+        const points = (device.history?.[Number(request.pin)] ?? []).filter(
+          (point) =>
+            point.time.getTime() >= request.from && point.time.getTime() <= request.to
+        );
+        if (points.length === 0) {
+          this.sendResponse(ws, messageId, ResponseCode.NO_DATA);
+        } else {
+          this.reply(ws, header, {
+            command: Command.GRAPH_DATA,
+            body: {
+              dataStreamId: request.dataStreamId,
+              data: points.map((point) => ({ x: point.time.getTime(), y: point.value })),
+            },
+          });
+        }
+        break;
+      }
+
+      case Command.WIDGET_UPDATE: {
+        const { deviceId, pin, value } = message.update;
+        if (!this.devices.has(Number(deviceId))) {
+          this.sendResponse(ws, messageId, ResponseCode.ILLEGAL_COMMAND_BODY);
+          break;
+        }
+
+        const command: ReceivedCommand = {
+          deviceId,
+          pin,
+          value,
+          messageId,
+          time: new Date(),
+        };
+        this.commands.push(command);
+        this.emit('command', command);
+
+        if (this.commandReply === 'ack') {
+          this.sendResponse(ws, messageId, ResponseCode.OK);
+        }
+        if (this.commandReply !== 'none') {
+          // The charger reports the new value back like any other update
+          this.pushWidgetUpdate(Number(deviceId), pin, value);
+        }
+        break;
+      }
+
+      default:
+        this.sendResponse(ws, messageId, ResponseCode.ILLEGAL_COMMAND);
+    }
+  }
+
+  /**
+   * Send a reply echoing the request's message id
+   */
+  private reply(ws: WebSocket, header: FrameHeader, message: OutgoingMessage): void {
+    ws.send(encodeMessage(message, header.messageId, { byte1: header.byte1, byte3: 0x00 }));
+  }
+
+  /**
+   * Send a response frame carrying a status code
+   *
+   * Format: 0x00 0x00 0x00 msgId + 4-byte big-endian status code
+   */
+  private sendResponse(ws: WebSocket, messageId: number, code: ResponseCode): void {
+    ws.send(encodeMessage({ command: Command.RESPONSE, code }, messageId));
+  }
+
+  /**
+   * Store a pin value on the device page
+   */
+  private setPinValue(deviceId: number, pin: string, value: string): void {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return;
+    }
+
+    for (const widget of device.page.dashboard.widgets) {
+      for (const module of widget.modules) {
+        for (const stream of module.displayDataStreams) {
+          if (String(stream.pin) === pin) {
+            stream.visualization.value = value;
+          }
+        }
+        if (module.onOffDataStream && String(module.onOffDataStream.pin) === pin) {
+          module.onOffDataStream.visualization.value = value;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Parse a Cookie request header into name/value pairs
+ */
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? '').split(';')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name) {
+      cookies[name] = rest.join('=');
+    }
+  }
+  return cookies;
+}
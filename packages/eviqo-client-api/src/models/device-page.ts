@@ -100,6 +100,8 @@ export interface Visualization1 {
   min?: number;
   max?: number;
   units?: string;
+  /** Menu labels of MENU and SEGMENTED_SWITCH widgets, one per value from min up */
+  labels?: string[];
 }
 
 export interface DisplayDataStream {
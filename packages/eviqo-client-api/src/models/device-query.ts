@@ -25,3 +25,30 @@ export interface EviqoDeviceQueryModel {
   count: number;
   docs: Array<Array<number | string | unknown[] | DeviceDocs>>;
 }
+
+/**
+ * Filter clause of a device query
+ */
+export interface DeviceQueryFilter {
+  type: string;
+  mode?: 'MATCH_ALL' | 'MATCH_ANY';
+  filters?: DeviceQueryFilter[] | unknown[];
+  isCurrent?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Options for EviqoWebsocketConnection.queryDevices()
+ */
+export interface DeviceQueryOptions {
+  /** Filters to apply (default: the current organization's devices) */
+  filters?: DeviceQueryFilter[];
+  /** How the filters are combined (default: MATCH_ALL) */
+  mode?: 'MATCH_ALL' | 'MATCH_ANY';
+  /** Column to sort by (default: Name) */
+  sortBy?: string;
+  /** Sort order (default: ASC) */
+  order?: 'ASC' | 'DESC';
+  /** Number of devices requested per page (default: 17) */
+  pageSize?: number;
+}
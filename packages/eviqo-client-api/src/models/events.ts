@@ -0,0 +1,119 @@
+/**
+ * Event types emitted by EviqoWebsocketConnection
+ */
+
+import { ParsedMessage } from '../utils/protocol';
+import { DeviceDocs } from './device-query';
+import { EviqoDevicePageModel } from './device-page';
+import { WidgetUpdate } from './widget-update';
+import { StateChange } from '../state-store';
+import { DevicePageDiff } from '../page-diff';
+import { AccountInfo } from '../account';
+
+export interface ConnectionClosedEvent {
+  code: number;
+  reason: string;
+}
+
+export interface CommandSentEvent {
+  deviceId: string;
+  pin: string;
+  value: string;
+  time: Date;
+}
+
+export interface CommandConfirmedEvent extends CommandSentEvent {
+  /** Server acknowledgement for the message id, or a widget update with the written value on the same pin */
+  confirmedBy: 'ack' | 'update';
+}
+
+export interface CommandFailedEvent extends CommandSentEvent {
+  error: Error;
+}
+
+export type StateChangedEvent = StateChange;
+
+export interface DeviceAddedEvent {
+  device: DeviceDocs;
+  devicePage: EviqoDevicePageModel;
+}
+
+export interface DeviceRemovedEvent {
+  deviceId: string;
+}
+
+export interface DeviceChangedEvent {
+  /** What changed since the previous fetch */
+  diff: DevicePageDiff;
+  /** Freshly fetched page */
+  devicePage: EviqoDevicePageModel;
+}
+
+export interface AccountUpdatedEvent {
+  account: AccountInfo;
+  /** Account information of the previous login of this client, if any */
+  previous: AccountInfo | null;
+}
+
+export interface ServerVersionChangedEvent {
+  previous: string;
+  current: string;
+}
+
+export interface ReconnectingEvent {
+  attempt: number;
+  delay: number;
+}
+
+export interface ReconnectedEvent {
+  devices: DeviceDocs[];
+  devicePages: EviqoDevicePageModel[];
+}
+
+export interface ReconnectFailedEvent {
+  attempts: number;
+}
+
+/**
+ * Map of event names to listener signatures
+ */
+export interface EviqoClientEvents {
+  /** Websocket opened */
+  connected: () => void;
+  /** Websocket closed (expectedly or not) */
+  connectionClosed: (event: ConnectionClosedEvent) => void;
+  /** Client shut down by disconnect() */
+  disconnected: () => void;
+  /** Device picked up by subscribeAll() (or a later reconnect) */
+  deviceAdded: (event: DeviceAddedEvent) => void;
+  /** Device no longer on the account */
+  deviceRemoved: (event: DeviceRemovedEvent) => void;
+  /** Device page changed on refresh (datastreams, meta fields, hardware info) */
+  deviceChanged: (event: DeviceChangedEvent) => void;
+  /** Account information received at login (or restored from a stored session) */
+  accountUpdated: (event: AccountUpdatedEvent) => void;
+  /** Cloud backend reports a different version than at the previous login */
+  serverVersionChanged: (event: ServerVersionChangedEvent) => void;
+  /** Reconnect attempt scheduled */
+  reconnecting: (event: ReconnectingEvent) => void;
+  /** Session re-established after a reconnect, with refreshed models */
+  reconnected: (event: ReconnectedEvent) => void;
+  /** Reconnect policy gave up after maxAttempts, or reconnect() failed with the policy disabled */
+  reconnectFailed: (event: ReconnectFailedEvent) => void;
+  /** Websocket error after the connection was established */
+  connectionError: (error: Error) => void;
+  /** Every inbound frame, after parsing */
+  message: (message: ParsedMessage) => void;
+  /** Inbound frames that are neither widget updates nor replies */
+  unsolicitedMessage: (message: ParsedMessage) => void;
+  /** Widget value pushed by the server */
+  widgetUpdate: (update: WidgetUpdate) => void;
+  /** A datastream value changed, by a widget update or on a page fetch */
+  stateChanged: (change: StateChangedEvent) => void;
+  /** Widget command written to the websocket */
+  commandSent: (command: CommandSentEvent) => void;
+  /** Widget command acknowledged by the server or reported back by the device */
+  commandConfirmed: (command: CommandConfirmedEvent) => void;
+  /** Widget command rejected by the server, timed out or lost with the connection */
+  commandFailed: (command: CommandFailedEvent) => void;
+}
@@ -0,0 +1,54 @@
+/**
+ * Datastream history data models
+ *
+ * Experimental: modelled on the dashboard chart request, not yet checked
+ * against the Eviqo cloud.
+ */
+
+/**
+ * Resolution of the points returned by the server
+ *
+ * `RAW` returns every stored value; the others average values per bucket.
+ */
+export type HistoryGranularity = 'RAW' | 'MINUTE' | 'HOURLY' | 'DAILY';
+
+/**
+ * Time range and resolution of a history request
+ */
+export interface HistoryOptions {
+  /** Start of the range (inclusive) */
+  from: Date | number;
+  /** End of the range (inclusive, default: now) */
+  to?: Date | number;
+  /** Resolution (default: MINUTE) */
+  granularity?: HistoryGranularity;
+}
+
+/**
+ * One value of a datastream
+ */
+export interface HistoryPoint {
+  time: Date;
+  value: number;
+}
+
+/**
+ * Values of one datastream over a time range, oldest first
+ */
+export interface DatastreamHistory {
+  deviceId: string;
+  pin: string;
+  name: string;
+  granularity: HistoryGranularity;
+  from: Date;
+  to: Date;
+  points: HistoryPoint[];
+}
+
+/**
+ * Graph data as sent by the server (timestamps in ms)
+ */
+export interface EviqoGraphDataModel {
+  dataStreamId: number;
+  data: Array<{ x: number; y: number | string | null }>;
+}
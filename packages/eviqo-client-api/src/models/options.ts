@@ -0,0 +1,45 @@
+/**
+ * Client configuration options
+ */
+
+import { CredentialProvider } from '../credentials';
+import { SessionStore } from '../session-store';
+import { ReconnectPolicy } from '../utils/backoff';
+
+export interface EviqoClientOptions {
+  /**
+   * Login page fetched to capture the session cookie. Defaults to
+   * /dashboard/login on the websocket host.
+   */
+  loginUrl?: string;
+  /** Origin header sent with the websocket handshake (defaults to the websocket host) */
+  origin?: string;
+  /** User-Agent header sent with the websocket handshake */
+  userAgent?: string;
+  /** Web client version reported at init and login */
+  clientVersion?: string;
+  /** Locale reported at init and login */
+  locale?: string;
+  /** Time to wait for a widget command to be confirmed (ms, default: 5000) */
+  commandTimeout?: number;
+  /**
+   * Refetch device pages at this interval and emit deviceChanged when they
+   * differ (ms, default: 0 = disabled)
+   */
+  pageRefreshInterval?: number;
+  /**
+   * Automatically reconnect when the connection drops. Pass `true` to use
+   * the default policy or a partial policy to override parts of it.
+   */
+  reconnect?: boolean | Partial<ReconnectPolicy>;
+  /**
+   * Supplies the email and password hash at login; takes precedence over
+   * the username and password constructor arguments
+   */
+  credentials?: CredentialProvider;
+  /**
+   * Where the authenticated session is kept so connections can resume it
+   * instead of logging in again (default: in memory)
+   */
+  sessionStore?: SessionStore;
+}
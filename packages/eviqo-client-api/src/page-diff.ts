@@ -0,0 +1,149 @@
+/**
+ * Device page diffing
+ *
+ * Compares two fetches of the same device page to find what the owner or
+ * the firmware changed: datastreams (by pin, on/off datastreams included),
+ * meta fields (by id), the device name and hardware info. Datastream values
+ * are ignored; they are tracked by the state store as widget updates arrive.
+ */
+
+import { pageDatastreams } from './datastream';
+import {
+  DisplayDataStream,
+  EviqoDevicePageModel,
+  HardwareInfo,
+  MetaField,
+} from './models/device-page';
+
+/**
+ * A value before and after a refresh
+ */
+export interface ValueChange<T> {
+  before: T;
+  after: T;
+}
+
+/**
+ * A datastream whose definition changed (name, units, bounds, ...)
+ */
+export interface DatastreamChange extends ValueChange<DisplayDataStream> {
+  pin: string;
+}
+
+/**
+ * A hardware info field that changed
+ */
+export interface HardwareInfoChange extends ValueChange<unknown> {
+  field: keyof HardwareInfo;
+}
+
+/**
+ * Differences between two fetches of a device page
+ */
+export interface DevicePageDiff {
+  deviceId: string;
+  /** Device name, if it changed */
+  name?: ValueChange<string>;
+  addedStreams: DisplayDataStream[];
+  removedStreams: DisplayDataStream[];
+  changedStreams: DatastreamChange[];
+  /** Meta fields added (before undefined), removed (after undefined) or edited */
+  metaFields: Array<ValueChange<MetaField | undefined>>;
+  hardwareInfo: HardwareInfoChange[];
+}
+
+/**
+ * Compare two fetches of a device page
+ *
+ * @param before - Previously fetched page
+ * @param after - Freshly fetched page
+ * @returns The differences; see hasPageChanges()
+ */
+export function diffDevicePages(
+  before: EviqoDevicePageModel,
+  after: EviqoDevicePageModel
+): DevicePageDiff {
+  const diff: DevicePageDiff = {
+    deviceId: String(after.id),
+    addedStreams: [],
+    removedStreams: [],
+    changedStreams: [],
+    metaFields: [],
+    hardwareInfo: [],
+  };
+
+  if (before.name !== after.name) {
+    diff.name = { before: before.name, after: after.name };
+  }
+
+  const oldStreams = streamsByPin(before);
+  const newStreams = streamsByPin(after);
+  for (const [pin, stream] of newStreams) {
+    const previous = oldStreams.get(pin);
+    if (!previous) {
+      diff.addedStreams.push(stream);
+    } else if (streamKey(previous) !== streamKey(stream)) {
+      diff.changedStreams.push({ pin, before: previous, after: stream });
+    }
+  }
+  for (const [pin, stream] of oldStreams) {
+    if (!newStreams.has(pin)) {
+      diff.removedStreams.push(stream);
+    }
+  }
+
+  const oldFields = new Map((before.metaFields ?? []).map((f) => [f.id, f]));
+  const newFields = new Map((after.metaFields ?? []).map((f) => [f.id, f]));
+  for (const [id, field] of newFields) {
+    const previous = oldFields.get(id);
+    if (JSON.stringify(previous) !== JSON.stringify(field)) {
+      diff.metaFields.push({ before: previous, after: field });
+    }
+  }
+  for (const [id, field] of oldFields) {
+    if (!newFields.has(id)) {
+      diff.metaFields.push({ before: field, after: undefined });
+    }
+  }
+
+  const oldInfo = before.hardwareInfo ?? {};
+  const newInfo = after.hardwareInfo ?? {};
+  const infoFields = new Set([...Object.keys(oldInfo), ...Object.keys(newInfo)]);
+  for (const field of infoFields as Set<keyof HardwareInfo>) {
+    const previous = (oldInfo as Partial<HardwareInfo>)[field];
+    const current = (newInfo as Partial<HardwareInfo>)[field];
+    if (previous !== current) {
+      diff.hardwareInfo.push({ field, before: previous, after: current });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Check whether a diff contains any change
+ */
+export function hasPageChanges(diff: DevicePageDiff): boolean {
+  return (
+    diff.name !== undefined ||
+    diff.addedStreams.length > 0 ||
+    diff.removedStreams.length > 0 ||
+    diff.changedStreams.length > 0 ||
+    diff.metaFields.length > 0 ||
+    diff.hardwareInfo.length > 0
+  );
+}
+
+function streamsByPin(page: EviqoDevicePageModel): Map<string, DisplayDataStream> {
+  const streams = new Map<string, DisplayDataStream>();
+  for (const stream of pageDatastreams(page)) {
+    streams.set(String(stream.pin), stream);
+  }
+  return streams;
+}
+
+// Definition of a datastream without its current value
+function streamKey(stream: DisplayDataStream): string {
+  const { value: _value, ...visualization } = stream.visualization;
+  return JSON.stringify({ ...stream, visualization });
+}
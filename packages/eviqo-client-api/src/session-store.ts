@@ -0,0 +1,107 @@
+/**
+ * Session persistence
+ *
+ * After a credential login the websocket session cookie is authenticated
+ * on the server. Keeping it lets the next connection (a reconnect, or a
+ * later process) resume the session instead of logging in again.
+ */
+
+import { promises as fs } from 'fs';
+import { EviqoUserModel } from './models/user';
+import { logger } from './utils/logger';
+
+/**
+ * An authenticated session
+ */
+export interface StoredSession {
+  /** Cookie header sent with the websocket handshake */
+  cookie: string;
+  /** Account the session belongs to, if known */
+  email: string | null;
+  /** User model returned by the login that authenticated the session */
+  user: EviqoUserModel | null;
+  /** ISO timestamp of the login */
+  savedAt: string;
+}
+
+/**
+ * Where the client keeps its session between connections
+ *
+ * Methods may be synchronous or return promises.
+ */
+export interface SessionStore {
+  load(): StoredSession | null | Promise<StoredSession | null>;
+  save(session: StoredSession): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Keeps the session in memory, so reconnects of one client reuse it
+ */
+export class MemorySessionStore implements SessionStore {
+  private session: StoredSession | null = null;
+
+  load(): StoredSession | null {
+    return this.session;
+  }
+
+  save(session: StoredSession): void {
+    this.session = session;
+  }
+
+  clear(): void {
+    this.session = null;
+  }
+}
+
+/**
+ * Keeps the session in a JSON file, so it survives restarts
+ *
+ * The file holds a live credential and is written readable by the owner only.
+ */
+export class FileSessionStore implements SessionStore {
+  readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<StoredSession | null> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.path, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    try {
+      const session = JSON.parse(text) as StoredSession;
+      return typeof session?.cookie === 'string' ? session : null;
+    } catch {
+      logger.warn(`Ignoring unreadable session file ${this.path}`);
+      return null;
+    }
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    await fs.writeFile(this.path, JSON.stringify(session, null, 2), { mode: 0o600 });
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.path, { force: true });
+  }
+}
+
+/**
+ * Name of the session cookie set by the login page
+ */
+export const SESSION_COOKIE = 'SESSION';
+
+/**
+ * Build the cookie header for a session id
+ *
+ * @param sessionId - Bare session id, or a full cookie header (`name=value; ...`)
+ */
+export function sessionCookieHeader(sessionId: string): string {
+  return sessionId.includes('=') ? sessionId : `${SESSION_COOKIE}=${sessionId}`;
+}
@@ -0,0 +1,362 @@
+/**
+ * Charging session tracking
+ *
+ * Builds per-session records from the charger's Status transitions and
+ * its Session duration / Session power / Session cost / Power widgets.
+ * Sessions are followed live from stateChanged events and can be rebuilt
+ * for past time ranges from the server's datastream history.
+ */
+
+import { EventEmitter } from 'events';
+import { EviqoWebsocketConnection } from './client';
+import { ChargerStatus, parseChargerStatus } from './charger';
+import { HistoryGranularity } from './models/history';
+import { StateChangedEvent } from './models/events';
+import { logger } from './utils/logger';
+
+const STATUS_WIDGET = 'Status';
+const POWER_WIDGET = 'Power';
+const SESSION_DURATION_WIDGET = 'Session duration';
+const SESSION_ENERGY_WIDGET = 'Session power';
+const SESSION_COST_WIDGET = 'Session cost';
+
+// Datastreams replayed when backfilling from history. Session duration is
+// left out: its HH:MM:SS values are not numbers, so the history has none and
+// backfilled durations are end - start.
+const HISTORY_WIDGETS = [STATUS_WIDGET, POWER_WIDGET, SESSION_ENERGY_WIDGET, SESSION_COST_WIDGET];
+
+/**
+ * One charging session
+ */
+export interface ChargingSession {
+  deviceId: string;
+  start: Date;
+  /** End of the session, or null while it is in progress */
+  end: Date | null;
+  /** Session duration reported by the charger, or end - start (always for history sessions) */
+  durationSeconds: number;
+  /** Energy delivered (kWh), from the Session power widget */
+  energyKwh: number | null;
+  /** Cost reported by the charger */
+  cost: number | null;
+  /** Highest Power value seen during the session (kW) */
+  peakPowerKw: number | null;
+  /** Whether the session was followed live or rebuilt from history */
+  source: 'live' | 'history';
+}
+
+/**
+ * Time range of a backfill
+ */
+export interface BackfillOptions {
+  from: Date | number;
+  /** End of the range (default: now) */
+  to?: Date | number;
+  /** History resolution (default: RAW, so no status transition is averaged away) */
+  granularity?: HistoryGranularity;
+}
+
+/**
+ * Event signatures for SessionTracker
+ */
+export interface SessionTrackerEvents {
+  /** Charger started charging */
+  sessionStarted: (session: ChargingSession) => void;
+  /** Vehicle unplugged or a new session became possible */
+  sessionEnded: (session: ChargingSession) => void;
+}
+
+export interface SessionTracker {
+  on<E extends keyof SessionTrackerEvents>(event: E, listener: SessionTrackerEvents[E]): this;
+  once<E extends keyof SessionTrackerEvents>(event: E, listener: SessionTrackerEvents[E]): this;
+  off<E extends keyof SessionTrackerEvents>(event: E, listener: SessionTrackerEvents[E]): this;
+  emit<E extends keyof SessionTrackerEvents>(
+    event: E,
+    ...args: Parameters<SessionTrackerEvents[E]>
+  ): boolean;
+}
+
+interface Sample {
+  name: string;
+  value: string;
+  time: Date;
+}
+
+/**
+ * Parse a Session duration value (HH:MM:SS) into seconds
+ *
+ * @returns Seconds, or null if the value is not a duration
+ */
+export function parseSessionDuration(value: string): number | null {
+  const match = /^(\d+):(\d{1,2}):(\d{1,2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds] = match.map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+function parseNumber(value: string): number | null {
+  const parsed = value.trim() === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Build charging sessions from Status transitions and session widgets
+ *
+ * A session opens when the charger starts charging and stays open while it
+ * is charging or stopped (stopped sessions can be resumed). It closes when
+ * the vehicle is unplugged or the charger is ready for a new session.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new SessionTracker(client);
+ * tracker.start();
+ * tracker.on('sessionEnded', (session) => console.log(sessionsToCsv([session])));
+ * ```
+ */
+export class SessionTracker extends EventEmitter {
+  private client: EviqoWebsocketConnection;
+  private sessions: ChargingSession[] = [];
+  private active: Map<string, ChargingSession> = new Map();
+  private listener: ((change: StateChangedEvent) => void) | null = null;
+
+  constructor(client: EviqoWebsocketConnection) {
+    super();
+    this.client = client;
+  }
+
+  /**
+   * Follow sessions live from the client's state changes
+   *
+   * Devices already charging when tracking starts get a session starting now.
+   */
+  start(): void {
+    if (this.listener) {
+      return;
+    }
+
+    for (const page of this.client.getDevicePages()) {
+      const status = this.client.getValue(page.id, STATUS_WIDGET);
+      if (status !== undefined) {
+        this.record(String(page.id), { name: STATUS_WIDGET, value: status, time: new Date() });
+      }
+    }
+
+    this.listener = (change) => {
+      if (change.name !== undefined) {
+        this.record(change.deviceId, {
+          name: change.name,
+          value: change.newValue,
+          time: change.time,
+        });
+      }
+    };
+    this.client.on('stateChanged', this.listener);
+  }
+
+  /**
+   * Stop following sessions; sessions in progress stay open
+   */
+  stop(): void {
+    if (this.listener) {
+      this.client.off('stateChanged', this.listener);
+      this.listener = null;
+    }
+  }
+
+  /**
+   * Sessions recorded so far, oldest first, including those in progress
+   *
+   * @param deviceId - Only return sessions of this device
+   */
+  getSessions(deviceId?: number | string): ChargingSession[] {
+    const sessions = [...this.sessions, ...this.active.values()]
+      .filter((session) => deviceId === undefined || session.deviceId === String(deviceId))
+      .map((session) => ({ ...session }));
+    return sessions.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Session in progress on a device, if any
+   */
+  getActiveSession(deviceId: number | string): ChargingSession | undefined {
+    const session = this.active.get(String(deviceId));
+    return session ? { ...session } : undefined;
+  }
+
+  /**
+   * Rebuild sessions of a past time range from datastream history
+   *
+   * Sessions that overlap one already recorded are skipped. A session
+   * still open at the end of the range is left out. Experimental, like
+   * getHistory() it is built on.
+   *
+   * @param deviceId - Device ID; its page must have been fetched
+   * @param options - Time range and history resolution
+   * @returns The sessions added
+   */
+  async backfill(
+    deviceId: number | string,
+    options: BackfillOptions
+  ): Promise<ChargingSession[]> {
+    const granularity = options.granularity ?? 'RAW';
+    const samples: Sample[] = [];
+
+    for (const name of HISTORY_WIDGETS) {
+      if (!this.client.getDeviceRegistry().getStreamByName(deviceId, name)) {
+        logger.debug(`Device ${deviceId} has no ${name} datastream; not backfilled`);
+        continue;
+      }
+      const history = await this.client.getHistory(deviceId, name, {
+        from: options.from,
+        to: options.to,
+        granularity,
+      });
+      for (const point of history.points) {
+        samples.push({ name, value: String(point.value), time: point.time });
+      }
+    }
+
+    // Status first on ties so values at the start instant land in the session
+    samples.sort(
+      (a, b) =>
+        a.time.getTime() - b.time.getTime() ||
+        Number(b.name === STATUS_WIDGET) - Number(a.name === STATUS_WIDGET)
+    );
+
+    const added: ChargingSession[] = [];
+    let session: ChargingSession | undefined;
+    for (const sample of samples) {
+      const result = applySample(String(deviceId), session, sample, 'history');
+      session = result.active;
+      if (result.ended && !this.overlaps(result.ended)) {
+        this.sessions.push(result.ended);
+        added.push({ ...result.ended });
+      }
+    }
+    return added;
+  }
+
+  /**
+   * Feed a live sample into the device's session
+   */
+  private record(deviceId: string, sample: Sample): void {
+    const result = applySample(deviceId, this.active.get(deviceId), sample, 'live');
+    if (result.ended) {
+      this.active.delete(deviceId);
+      this.sessions.push(result.ended);
+      logger.info(`Charging session on ${deviceId} ended`);
+      this.emit('sessionEnded', { ...result.ended });
+    }
+    if (result.started) {
+      logger.info(`Charging session on ${deviceId} started`);
+      this.emit('sessionStarted', { ...result.started });
+    }
+    if (result.active) {
+      this.active.set(deviceId, result.active);
+    }
+  }
+
+  private overlaps(session: ChargingSession): boolean {
+    const end = (s: ChargingSession) => (s.end ?? new Date()).getTime();
+    return this.getSessions(session.deviceId).some(
+      (other) => other.start.getTime() <= end(session) && session.start.getTime() <= end(other)
+    );
+  }
+}
+
+/**
+ * Advance a device's session by one sample
+ */
+function applySample(
+  deviceId: string,
+  active: ChargingSession | undefined,
+  sample: Sample,
+  source: ChargingSession['source']
+): { active?: ChargingSession; started?: ChargingSession; ended?: ChargingSession } {
+  if (sample.name === STATUS_WIDGET) {
+    const status = parseChargerStatus(sample.value);
+    if (status === ChargerStatus.CHARGING && !active) {
+      const started: ChargingSession = {
+        deviceId,
+        start: sample.time,
+        end: null,
+        durationSeconds: 0,
+        energyKwh: null,
+        cost: null,
+        peakPowerKw: null,
+        source,
+      };
+      return { active: started, started };
+    }
+    if ((status === ChargerStatus.UNPLUGGED || status === ChargerStatus.PLUGGED) && active) {
+      const ended = { ...active, end: sample.time };
+      if (ended.durationSeconds === 0) {
+        ended.durationSeconds = Math.round((sample.time.getTime() - active.start.getTime()) / 1000);
+      }
+      return { ended };
+    }
+    return { active };
+  }
+
+  if (!active) {
+    return {};
+  }
+
+  switch (sample.name) {
+    case SESSION_DURATION_WIDGET:
+      active.durationSeconds = parseSessionDuration(sample.value) ?? active.durationSeconds;
+      break;
+    case SESSION_ENERGY_WIDGET:
+      active.energyKwh = parseNumber(sample.value) ?? active.energyKwh;
+      break;
+    case SESSION_COST_WIDGET:
+      active.cost = parseNumber(sample.value) ?? active.cost;
+      break;
+    case POWER_WIDGET: {
+      const power = parseNumber(sample.value);
+      if (power !== null && (active.peakPowerKw === null || power > active.peakPowerKw)) {
+        active.peakPowerKw = power;
+      }
+      break;
+    }
+  }
+  return { active };
+}
+
+const CSV_COLUMNS: Array<keyof ChargingSession> = [
+  'deviceId',
+  'start',
+  'end',
+  'durationSeconds',
+  'energyKwh',
+  'cost',
+  'peakPowerKw',
+  'source',
+];
+
+function csvField(value: ChargingSession[keyof ChargingSession]): string {
+  if (value === null) {
+    return '';
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format sessions as CSV, one row per session with a header row
+ */
+export function sessionsToCsv(sessions: ChargingSession[]): string {
+  const rows = sessions.map((session) =>
+    CSV_COLUMNS.map((column) => csvField(session[column])).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Format sessions as a JSON array (dates as ISO strings)
+ */
+export function sessionsToJson(sessions: ChargingSession[]): string {
+  return JSON.stringify(sessions, null, 2) + '\n';
+}
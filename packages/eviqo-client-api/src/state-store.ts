@@ -0,0 +1,231 @@
+/**
+ * Live device state
+ *
+ * Holds the latest value of every datastream, keyed by device and pin, and
+ * applies widget updates as they arrive. Values are also written back to
+ * the datastream's visualization so device page models stay current.
+ */
+
+import { pageDatastreams } from './datastream';
+import {
+  DisplayDataStream,
+  EviqoDevicePageModel,
+  OnOffDataStream,
+} from './models/device-page';
+
+/**
+ * Latest value of one pin
+ */
+export interface PinState {
+  pin: string;
+  /** Datastream name, or undefined for pins not on the device page */
+  name?: string;
+  value: string;
+  updatedAt: Date;
+  stream?: DisplayDataStream | OnOffDataStream;
+}
+
+/**
+ * Point-in-time copy of a device's state
+ */
+export interface DeviceSnapshot {
+  deviceId: string;
+  /** Pin states keyed by pin */
+  pins: Record<string, PinState>;
+  /** Values keyed by datastream name */
+  values: Record<string, string>;
+  /** Time of the most recent change, or null if nothing has been recorded */
+  updatedAt: Date | null;
+}
+
+/**
+ * Change recorded by DeviceStateStore.apply() or loadPage()
+ */
+export interface StateChange {
+  deviceId: string;
+  pin: string;
+  name?: string;
+  oldValue: string | undefined;
+  newValue: string;
+  time: Date;
+}
+
+/**
+ * In-memory state of every device, keyed by device ID and pin
+ */
+export class DeviceStateStore {
+  private devices: Map<string, Map<string, PinState>> = new Map();
+
+  /**
+   * Seed a device's state from its page, replacing anything recorded before
+   *
+   * Values that differ from the ones recorded before (e.g. a transition
+   * that happened while disconnected) are returned as changes.
+   *
+   * @param page - Device page model; its datastreams are updated in place
+   * @returns Changes of pins that had a recorded value
+   */
+  loadPage(page: EviqoDevicePageModel): StateChange[] {
+    const deviceId = String(page.id);
+    const previous = this.devices.get(deviceId);
+    const pins = new Map<string, PinState>();
+    const changes: StateChange[] = [];
+    const updatedAt = new Date();
+
+    for (const stream of pageDatastreams(page)) {
+      const pin = String(stream.pin);
+      const value = stream.visualization.value;
+      pins.set(pin, {
+        pin,
+        name: stream.name,
+        value,
+        updatedAt,
+        stream,
+      });
+
+      const oldValue = previous?.get(pin)?.value;
+      if (oldValue !== undefined && oldValue !== value) {
+        changes.push({
+          deviceId,
+          pin,
+          name: stream.name,
+          oldValue,
+          newValue: value,
+          time: updatedAt,
+        });
+      }
+    }
+
+    this.devices.set(deviceId, pins);
+    return changes;
+  }
+
+  /**
+   * Record a pin value
+   *
+   * Updates for devices whose page was never loaded are ignored.
+   *
+   * @param deviceId - Device ID
+   * @param pin - Pin number
+   * @param value - New value
+   * @param time - Time the value was reported
+   * @returns The change, or null if the value did not change or the device is unknown
+   */
+  apply(
+    deviceId: string | number,
+    pin: string | number,
+    value: string,
+    time = new Date()
+  ): StateChange | null {
+    const key = String(deviceId);
+    const pins = this.devices.get(key);
+    if (!pins) {
+      return null;
+    }
+
+    const pinKey = String(pin);
+    const state = pins.get(pinKey);
+    const oldValue = state?.value;
+
+    if (state) {
+      state.value = value;
+      state.updatedAt = time;
+      if (state.stream) {
+        state.stream.visualization.value = value;
+      }
+    } else {
+      pins.set(pinKey, { pin: pinKey, value, updatedAt: time });
+    }
+
+    if (oldValue === value) {
+      return null;
+    }
+    return {
+      deviceId: key,
+      pin: pinKey,
+      name: state?.name,
+      oldValue,
+      newValue: value,
+      time,
+    };
+  }
+
+  /**
+   * Get a pin's state
+   */
+  getPin(deviceId: string | number, pin: string | number): PinState | undefined {
+    return this.devices.get(String(deviceId))?.get(String(pin));
+  }
+
+  /**
+   * Get a value by datastream name
+   *
+   * @param deviceId - Device ID
+   * @param name - Datastream name (e.g. "Current max")
+   * @returns Latest value, or undefined if unknown
+   */
+  getValue(deviceId: string | number, name: string): string | undefined {
+    const pins = this.devices.get(String(deviceId));
+    if (!pins) {
+      return undefined;
+    }
+    for (const state of pins.values()) {
+      if (state.name === name) {
+        return state.value;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Copy a device's current state
+   *
+   * @returns Snapshot, or undefined if the device's page was never loaded
+   */
+  getSnapshot(deviceId: string | number): DeviceSnapshot | undefined {
+    const key = String(deviceId);
+    const pins = this.devices.get(key);
+    if (!pins) {
+      return undefined;
+    }
+
+    const snapshot: DeviceSnapshot = {
+      deviceId: key,
+      pins: {},
+      values: {},
+      updatedAt: null,
+    };
+    for (const state of pins.values()) {
+      snapshot.pins[state.pin] = { ...state };
+      // Display datastreams come first and keep a name an on/off datastream shares
+      if (state.name !== undefined && !(state.name in snapshot.values)) {
+        snapshot.values[state.name] = state.value;
+      }
+      if (snapshot.updatedAt === null || state.updatedAt > snapshot.updatedAt) {
+        snapshot.updatedAt = state.updatedAt;
+      }
+    }
+    return snapshot;
+  }
+
+  /**
+   * IDs of devices with recorded state
+   */
+  getDeviceIds(): string[] {
+    return Array.from(this.devices.keys());
+  }
+
+  /**
+   * Forget a device
+   */
+  removeDevice(deviceId: string | number): void {
+    this.devices.delete(String(deviceId));
+  }
+
+  /**
+   * Forget every device
+   */
+  clear(): void {
+    this.devices.clear();
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Reconnect policy with exponential backoff and jitter
+ */
+export interface ReconnectPolicy {
+  /** Reconnect automatically when the connection drops */
+  enabled: boolean;
+  /** Delay before the first attempt (ms) */
+  initialDelay: number;
+  /** Upper bound for the delay between attempts (ms) */
+  maxDelay: number;
+  /** Factor the delay grows by after each failed attempt */
+  multiplier: number;
+  /** Random spread applied to each delay, as a fraction (0.2 = +/-20%) */
+  jitter: number;
+  /** Give up after this many consecutive failed attempts (0 = never) */
+  maxAttempts: number;
+}
+
+/**
+ * Default reconnect policy (disabled unless opted in)
+ */
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  enabled: false,
+  initialDelay: 1000,
+  maxDelay: 300000,
+  multiplier: 2,
+  jitter: 0.2,
+  maxAttempts: 0,
+};
+
+/**
+ * Resolve a user-supplied reconnect setting against the defaults
+ *
+ * @param policy - `true` to enable with defaults, or a partial policy
+ * @returns Complete reconnect policy
+ */
+export function resolveReconnectPolicy(
+  policy: boolean | Partial<ReconnectPolicy> | undefined
+): ReconnectPolicy {
+  if (policy === undefined || policy === false) {
+    return { ...DEFAULT_RECONNECT_POLICY };
+  }
+  if (policy === true) {
+    return { ...DEFAULT_RECONNECT_POLICY, enabled: true };
+  }
+  return { ...DEFAULT_RECONNECT_POLICY, enabled: true, ...policy };
+}
+
+/**
+ * Compute the delay before a reconnect attempt
+ *
+ * @param attempt - Zero-based attempt number
+ * @param policy - Reconnect policy
+ * @param random - Random source returning [0, 1) (for testing)
+ * @returns Delay in ms
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: ReconnectPolicy,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(
+    policy.initialDelay * Math.pow(policy.multiplier, attempt),
+    policy.maxDelay
+  );
+  const spread = base * policy.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(base + spread));
+}
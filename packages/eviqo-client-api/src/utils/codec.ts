@@ -0,0 +1,405 @@
+/**
+ * Typed codec for the Eviqo websocket protocol
+ *
+ * Every frame starts with a 4-byte header [byte1, command, byte3, messageId]
+ * followed by a command-specific body. This module names the known commands
+ * and turns frames into a discriminated union keyed on `command` (and back),
+ * so callers never deal with magic numbers or payload guessing.
+ */
+
+import { DeviceQueryFilter, EviqoDeviceQueryModel } from '../models/device-query';
+import { EviqoDevicePageModel } from '../models/device-page';
+import { EviqoGraphDataModel, HistoryGranularity } from '../models/history';
+import { EviqoUserModel } from '../models/user';
+
+/**
+ * Known commands (byte2 of the header)
+ */
+export enum Command {
+  /** Status code reply to a request */
+  RESPONSE = 0x00,
+  LOGIN = 0x02,
+  DEVICE_PAGE = 0x04,
+  KEEPALIVE = 0x06,
+  /** Widget write from a client, or a value reported by a device */
+  WIDGET_UPDATE = 0x14,
+  /** Widget write made by another user of the account */
+  USER_UPDATE = 0x19,
+  DEVICE_QUERY = 0x1b,
+  INIT = 0x30,
+  /**
+   * Datastream history for dashboard charts
+   *
+   * Experimental: the command byte and body layout are modelled on the
+   * dashboard chart request and have not been checked against the Eviqo
+   * cloud; they may change.
+   */
+  GRAPH_DATA = 0x3c,
+  SELECT_DEVICE = 0x49,
+}
+
+/**
+ * Status codes carried by RESPONSE frames (Blynk-style)
+ */
+export enum ResponseCode {
+  OK = 200,
+  QUOTA_LIMIT = 1,
+  ILLEGAL_COMMAND = 2,
+  USER_NOT_REGISTERED = 3,
+  USER_ALREADY_REGISTERED = 4,
+  USER_NOT_AUTHENTICATED = 5,
+  NOT_ALLOWED = 6,
+  DEVICE_NOT_IN_NETWORK = 7,
+  NO_ACTIVE_DASHBOARD = 8,
+  INVALID_TOKEN = 9,
+  ILLEGAL_COMMAND_BODY = 11,
+  NOTIFICATION_INVALID_BODY = 13,
+  NOTIFICATION_NOT_AUTHORIZED = 14,
+  NOTIFICATION_ERROR = 15,
+  TIMEOUT = 16,
+  NO_DATA = 17,
+  DEVICE_WENT_OFFLINE = 18,
+  SERVER_ERROR = 19,
+}
+
+/**
+ * Decoded 4-byte frame header
+ */
+export interface FrameHeader {
+  byte1: number;
+  command: number;
+  byte3: number;
+  /** Message id echoed by the server on the reply (byte4) */
+  messageId: number;
+}
+
+export interface InitRequest {
+  clientType: string;
+  version: string;
+  locale: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  hash: string;
+  clientType: string;
+  version: string;
+  locale: string;
+}
+
+export interface DeviceQueryRequest {
+  docType: string;
+  mode: string;
+  viewType: string;
+  filters: DeviceQueryFilter[];
+  offset: number;
+  limit: number;
+  order: string;
+  sortBy: string;
+}
+
+export interface DevicePageRequest {
+  /** Tab page id, or null for the device's default page */
+  pageId: string | null;
+  deviceId: string;
+  dashboardPageId: string | null;
+}
+
+export interface GraphDataRequest {
+  deviceId: string;
+  dataStreamId: number;
+  pin: string;
+  /** Range start in ms since the epoch */
+  from: number;
+  /** Range end in ms since the epoch */
+  to: number;
+  granularity: HistoryGranularity;
+}
+
+/**
+ * Body of a widget write/update: deviceId\0kind\0pin\0value
+ */
+export interface PinWrite {
+  deviceId: string;
+  /** Pin kind, `vw` (virtual write) for every widget seen so far */
+  kind: string;
+  pin: string;
+  value: string;
+}
+
+export interface ResponseMessage {
+  command: Command.RESPONSE;
+  header: FrameHeader;
+  code: number;
+}
+
+export interface InitMessage {
+  command: Command.INIT;
+  header: FrameHeader;
+  body: InitRequest | Record<string, unknown>;
+}
+
+export interface LoginMessage {
+  command: Command.LOGIN;
+  header: FrameHeader;
+  body: LoginRequest | EviqoUserModel;
+}
+
+export interface DeviceQueryMessage {
+  command: Command.DEVICE_QUERY;
+  header: FrameHeader;
+  body: DeviceQueryRequest | EviqoDeviceQueryModel;
+}
+
+export interface SelectDeviceMessage {
+  command: Command.SELECT_DEVICE;
+  header: FrameHeader;
+  deviceId: string;
+}
+
+export interface DevicePageMessage {
+  command: Command.DEVICE_PAGE;
+  header: FrameHeader;
+  body: DevicePageRequest | EviqoDevicePageModel;
+}
+
+export interface GraphDataMessage {
+  command: Command.GRAPH_DATA;
+  header: FrameHeader;
+  body: GraphDataRequest | EviqoGraphDataModel;
+}
+
+export interface KeepaliveMessage {
+  command: Command.KEEPALIVE;
+  header: FrameHeader;
+}
+
+export interface WidgetUpdateMessage {
+  command: Command.WIDGET_UPDATE | Command.USER_UPDATE;
+  header: FrameHeader;
+  update: PinWrite;
+}
+
+/**
+ * Frame with an unknown command, or a body its decoder could not read
+ */
+export interface UnknownMessage {
+  command: 'unknown';
+  header: FrameHeader;
+  body: Buffer;
+}
+
+export type KnownMessage =
+  | ResponseMessage
+  | InitMessage
+  | LoginMessage
+  | DeviceQueryMessage
+  | SelectDeviceMessage
+  | DevicePageMessage
+  | GraphDataMessage
+  | KeepaliveMessage
+  | WidgetUpdateMessage;
+
+export type EviqoMessage = KnownMessage | UnknownMessage;
+
+type WithoutHeader<T> = T extends unknown ? Omit<T, 'header'> : never;
+
+/**
+ * A known message to encode; the header is filled in from the command
+ */
+export type OutgoingMessage = WithoutHeader<KnownMessage>;
+
+/**
+ * Per-command header defaults and body encoder/decoder
+ */
+interface CommandSpec {
+  byte1: number;
+  byte3: number;
+  /** Message id the web client always uses for this command */
+  messageId?: number;
+  encode(message: OutgoingMessage): Buffer;
+  /** Returns null if the body cannot be decoded */
+  decode(header: FrameHeader, body: Buffer): KnownMessage | null;
+}
+
+function encodeJson(value: unknown): Buffer {
+  return Buffer.from(JSON.stringify(value), 'utf-8');
+}
+
+function decodeJson<T>(body: Buffer): T | null {
+  if (body.length === 0) {
+    return null;
+  }
+  try {
+    return JSON.parse(body.toString('utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Spec for commands whose body is a JSON document
+ */
+function jsonSpec<
+  M extends InitMessage | LoginMessage | DeviceQueryMessage | DevicePageMessage | GraphDataMessage
+>(
+  command: M['command'],
+  byte1: number,
+  messageId?: number
+): CommandSpec {
+  return {
+    byte1,
+    byte3: 0x00,
+    messageId,
+    encode: (message) => encodeJson((message as Omit<M, 'header'>).body),
+    decode: (header, body) => {
+      const decoded = decodeJson<M['body']>(body);
+      return decoded === null ? null : ({ command, header, body: decoded } as M);
+    },
+  };
+}
+
+function widgetSpec(command: WidgetUpdateMessage['command']): CommandSpec {
+  return {
+    byte1: 0x00,
+    byte3: 0x00,
+    encode: (message) => {
+      const { deviceId, kind, pin, value } = (message as Omit<WidgetUpdateMessage, 'header'>)
+        .update;
+      return Buffer.from(`${deviceId}\0${kind}\0${pin}\0${value}`, 'binary');
+    },
+    decode: (header, body) => {
+      const parts = body.toString('binary').split('\0');
+      if (parts.length < 3) {
+        return null;
+      }
+      const [deviceId, kind, pin, ...rest] = parts;
+      return {
+        command,
+        header,
+        update: { deviceId, kind, pin, value: rest.join('\0') },
+      };
+    },
+  };
+}
+
+const COMMAND_SPECS: Record<Command, CommandSpec> = {
+  [Command.RESPONSE]: {
+    byte1: 0x00,
+    byte3: 0x00,
+    encode: (message) => {
+      const body = Buffer.alloc(4);
+      body.writeUInt32BE((message as Omit<ResponseMessage, 'header'>).code);
+      return body;
+    },
+    decode: (header, body) =>
+      body.length < 4
+        ? null
+        : { command: Command.RESPONSE, header, code: body.readUInt32BE(0) },
+  },
+  [Command.INIT]: jsonSpec<InitMessage>(Command.INIT, 0x01, 0x01),
+  [Command.LOGIN]: jsonSpec<LoginMessage>(Command.LOGIN, 0x00, 0x03),
+  [Command.DEVICE_QUERY]: jsonSpec<DeviceQueryMessage>(Command.DEVICE_QUERY, 0x01),
+  [Command.DEVICE_PAGE]: jsonSpec<DevicePageMessage>(Command.DEVICE_PAGE, 0x01),
+  [Command.GRAPH_DATA]: jsonSpec<GraphDataMessage>(Command.GRAPH_DATA, 0x01),
+  [Command.SELECT_DEVICE]: {
+    byte1: 0x00,
+    byte3: 0x01,
+    encode: (message) =>
+      Buffer.from((message as Omit<SelectDeviceMessage, 'header'>).deviceId, 'utf-8'),
+    decode: (header, body) => ({
+      command: Command.SELECT_DEVICE,
+      header,
+      deviceId: body.toString('utf-8'),
+    }),
+  },
+  [Command.KEEPALIVE]: {
+    byte1: 0x00,
+    byte3: 0x00,
+    encode: () => Buffer.alloc(0),
+    decode: (header) => ({ command: Command.KEEPALIVE, header }),
+  },
+  [Command.WIDGET_UPDATE]: widgetSpec(Command.WIDGET_UPDATE),
+  [Command.USER_UPDATE]: widgetSpec(Command.USER_UPDATE),
+};
+
+/**
+ * Check whether a header byte is a known command
+ */
+export function isKnownCommand(byte: number): byte is Command {
+  return Object.prototype.hasOwnProperty.call(COMMAND_SPECS, byte);
+}
+
+/**
+ * Name of a command for logging (e.g. `DEVICE_QUERY`, or `0x7f` if unknown)
+ */
+export function commandName(command: number | 'unknown'): string {
+  if (command !== 'unknown' && isKnownCommand(command)) {
+    return Command[command];
+  }
+  return typeof command === 'number' ? `0x${command.toString(16).padStart(2, '0')}` : command;
+}
+
+/**
+ * Message id the web client always uses for a command, if any
+ *
+ * Login (0x03) and init (0x01) are sent with fixed ids; everything else
+ * takes the next free id.
+ */
+export function fixedMessageId(command: Command): number | undefined {
+  return COMMAND_SPECS[command].messageId;
+}
+
+/**
+ * Decode a frame into a typed message
+ *
+ * @param data - Raw frame
+ * @returns Decoded message, or null if the frame is shorter than a header
+ */
+export function decodeMessage(data: Buffer): EviqoMessage | null {
+  if (data.length < 4) {
+    return null;
+  }
+
+  const header: FrameHeader = {
+    byte1: data[0],
+    command: data[1],
+    byte3: data[2],
+    messageId: data[3],
+  };
+  const body = data.subarray(4);
+
+  if (isKnownCommand(header.command)) {
+    const decoded = COMMAND_SPECS[header.command].decode(header, body);
+    if (decoded !== null) {
+      return decoded;
+    }
+  }
+
+  return { command: 'unknown', header, body };
+}
+
+/**
+ * Encode a typed message into a frame
+ *
+ * @param message - Message to encode
+ * @param messageId - Message id for byte4
+ * @param header - Overrides for the command's default header bytes
+ * @returns Binary frame
+ */
+export function encodeMessage(
+  message: OutgoingMessage,
+  messageId: number,
+  header: Partial<Pick<FrameHeader, 'byte1' | 'byte3'>> = {}
+): Buffer {
+  const spec = COMMAND_SPECS[message.command];
+  return Buffer.concat([
+    Buffer.from([
+      header.byte1 ?? spec.byte1,
+      message.command,
+      header.byte3 ?? spec.byte3,
+      messageId & 0xff,
+    ]),
+    spec.encode(message),
+  ]);
+}
@@ -0,0 +1,173 @@
+import { responseError, TimeoutError } from '../errors';
+import { Command } from './codec';
+import { logger } from './logger';
+import { ParsedMessage } from './protocol';
+
+/**
+ * Default time to wait for a reply before a request is rejected (ms)
+ */
+export const DEFAULT_REQUEST_TIMEOUT = 10000;
+
+/**
+ * A request that has been sent and is waiting for its reply
+ */
+interface PendingRequest {
+  description: string;
+  resolve: (message: ParsedMessage) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Request/response correlation for the Eviqo websocket protocol
+ *
+ * Every outbound message carries a message id in byte4 of the header and
+ * the server echoes that id on its reply. The dispatcher hands out ids,
+ * keeps a table of pending requests and resolves each one when a frame
+ * with the matching id arrives. A RESPONSE frame with a non-OK status code
+ * rejects the request with the matching error class (see errors.ts), as
+ * does an expired timeout (TimeoutError).
+ *
+ * @example
+ * ```typescript
+ * const dispatcher = new RequestDispatcher();
+ * const messageId = dispatcher.allocateId();
+ * const reply = dispatcher.register(messageId, 'DEVICE QUERY');
+ * ws.send(createBinaryMessage(query, 0x01, 0x1b, 0x00, messageId));
+ * // ... for every inbound frame:
+ * dispatcher.dispatch(parseBinaryMessage(frame));
+ * ```
+ */
+export class RequestDispatcher {
+  private pending: Map<number, PendingRequest> = new Map();
+  // Message counter shared across all outbound messages, starting at 0
+  private messageCounter = 0;
+
+  /**
+   * Allocate the next message id
+   *
+   * Ids wrap at 256 (byte4 is a single byte) and ids that are still
+   * awaiting a reply are skipped.
+   *
+   * @returns Message id to put in byte4
+   */
+  allocateId(): number {
+    for (let attempts = 0; attempts < 256; attempts++) {
+      const messageId = this.messageCounter;
+      this.messageCounter = (this.messageCounter + 1) & 0xff;
+      if (!this.pending.has(messageId)) {
+        return messageId;
+      }
+    }
+    throw new Error('No free message ids, too many requests in flight');
+  }
+
+  /**
+   * Register a pending request and wait for its reply
+   *
+   * @param messageId - Message id the request was (or will be) sent with
+   * @param description - Description for logging and error messages
+   * @param timeout - Time to wait for the reply in ms
+   * @returns Promise resolving with the reply frame
+   * @throws TimeoutError if no reply arrives in time
+   * @throws ResponseError (or a subclass) if the server answers with an error code
+   */
+  register(
+    messageId: number,
+    description = '',
+    timeout = DEFAULT_REQUEST_TIMEOUT
+  ): Promise<ParsedMessage> {
+    if (this.pending.has(messageId)) {
+      return Promise.reject(
+        new Error(`Message id ${messageId} already has a pending request`)
+      );
+    }
+
+    return new Promise<ParsedMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(messageId);
+        reject(
+          new TimeoutError(
+            `Timed out after ${timeout}ms waiting for reply to ${description} [byte4=${messageId}]`
+          )
+        );
+      }, timeout);
+
+      this.pending.set(messageId, { description, resolve, reject, timer });
+    });
+  }
+
+  /**
+   * Route an inbound frame to the request waiting for it
+   *
+   * @param message - Parsed inbound frame
+   * @returns True if the frame was a reply to a pending request
+   */
+  dispatch(message: ParsedMessage): boolean {
+    if (!message.header) {
+      return false;
+    }
+
+    const messageId = message.header.byte4;
+    const request = this.pending.get(messageId);
+    if (!request) {
+      return false;
+    }
+
+    clearTimeout(request.timer);
+    this.pending.delete(messageId);
+    logger.debug(`Reply to ${request.description} [byte4=${messageId}]`);
+
+    const reply = message.message;
+    const error =
+      reply?.command === Command.RESPONSE
+        ? responseError(reply.code, request.description)
+        : null;
+    if (error) {
+      request.reject(error);
+    } else {
+      request.resolve(message);
+    }
+    return true;
+  }
+
+  /**
+   * Cancel a pending request without resolving it
+   *
+   * @param messageId - Message id of the request
+   */
+  cancel(messageId: number): void {
+    const request = this.pending.get(messageId);
+    if (request) {
+      clearTimeout(request.timer);
+      this.pending.delete(messageId);
+    }
+  }
+
+  /**
+   * Reject every pending request, e.g. when the connection closes
+   *
+   * @param error - Error to reject with
+   */
+  rejectAll(error: Error): void {
+    for (const request of this.pending.values()) {
+      clearTimeout(request.timer);
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Check whether a message id is waiting for a reply
+   */
+  isPending(messageId: number): boolean {
+    return this.pending.has(messageId);
+  }
+
+  /**
+   * Number of requests waiting for a reply
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+}
@@ -15,6 +15,7 @@ export enum LogLevel {
 class Logger {
   private level: LogLevel;
   private name: string;
+  private stderr = false;
 
   constructor(name: string, level: LogLevel = LogLevel.INFO) {
     this.name = name;
@@ -35,6 +36,11 @@ class Logger {
     const levelName = LogLevel[level];
     const formattedMessage = `${timestamp} - ${this.name} - ${levelName} - ${message}`;
 
+    if (this.stderr) {
+      console.error(formattedMessage, ...args);
+      return;
+    }
+
     switch (level) {
       case LogLevel.DEBUG:
         console.debug(formattedMessage, ...args);
@@ -70,6 +76,13 @@ class Logger {
   setLevel(level: LogLevel): void {
     this.level = level;
   }
+
+  /**
+   * Write every level to stderr, keeping stdout free for command output
+   */
+  setStderr(stderr: boolean): void {
+    this.stderr = stderr;
+  }
 }
 
 // Create default logger instance
@@ -1,4 +1,5 @@
 import { logger } from './logger';
+import { decodeMessage, EviqoMessage } from './codec';
 
 /**
  * Binary message header information
@@ -20,6 +21,8 @@ export interface MessageHeader {
 export interface ParsedMessage {
   header: MessageHeader | null;
   payload: Record<string, unknown> | string | null;
+  /** Frame decoded by the typed codec (see utils/codec.ts) */
+  message?: EviqoMessage;
 }
 
 /**
@@ -137,7 +140,7 @@ export function parseBinaryMessage(data: Buffer): ParsedMessage {
     logger.debug('Received ascii');
   }
 
-  return { header, payload };
+  return { header, payload, message: decodeMessage(data) ?? undefined };
 }
 
 /**
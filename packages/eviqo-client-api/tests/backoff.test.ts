@@ -0,0 +1,58 @@
+/**
+ * Tests for reconnect backoff
+ */
+
+import {
+  computeBackoffDelay,
+  DEFAULT_RECONNECT_POLICY,
+  resolveReconnectPolicy,
+} from '../src/utils/backoff';
+
+describe('resolveReconnectPolicy', () => {
+  it('should be disabled by default', () => {
+    expect(resolveReconnectPolicy(undefined).enabled).toBe(false);
+    expect(resolveReconnectPolicy(false).enabled).toBe(false);
+  });
+
+  it('should enable the default policy for true', () => {
+    expect(resolveReconnectPolicy(true)).toEqual({
+      ...DEFAULT_RECONNECT_POLICY,
+      enabled: true,
+    });
+  });
+
+  it('should merge a partial policy over the defaults', () => {
+    const policy = resolveReconnectPolicy({ maxAttempts: 5 });
+    expect(policy.enabled).toBe(true);
+    expect(policy.maxAttempts).toBe(5);
+    expect(policy.initialDelay).toBe(DEFAULT_RECONNECT_POLICY.initialDelay);
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  const policy = {
+    ...DEFAULT_RECONNECT_POLICY,
+    enabled: true,
+    initialDelay: 1000,
+    maxDelay: 10000,
+    multiplier: 2,
+    jitter: 0,
+  };
+
+  it('should grow exponentially', () => {
+    expect(computeBackoffDelay(0, policy)).toBe(1000);
+    expect(computeBackoffDelay(1, policy)).toBe(2000);
+    expect(computeBackoffDelay(2, policy)).toBe(4000);
+  });
+
+  it('should cap at maxDelay', () => {
+    expect(computeBackoffDelay(10, policy)).toBe(10000);
+  });
+
+  it('should apply jitter within the configured spread', () => {
+    const jittered = { ...policy, jitter: 0.5 };
+    expect(computeBackoffDelay(1, jittered, () => 0)).toBe(1000);
+    expect(computeBackoffDelay(1, jittered, () => 0.5)).toBe(2000);
+    expect(computeBackoffDelay(1, jittered, () => 0.999999)).toBe(3000);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for high-level charger control against the mock server
+ */
+
+import { EviqoWebsocketConnection } from '../src/client';
+import {
+  chargerStatusLabel,
+  ChargerStatus,
+  EviqoCharger,
+  parseChargerStatus,
+} from '../src/charger';
+import { ChargerStateError, TimeoutError, ValidationError } from '../src/errors';
+import { EviqoMockServer } from '../src/mock/server';
+import { MOCK_EMAIL, MOCK_PASSWORD } from '../src/mock/fixtures';
+import { logger, LogLevel } from '../src/utils/logger';
+
+const DEVICE_ID = 51627;
+const STATUS_PIN = 2;
+
+beforeAll(() => {
+  logger.setLevel(LogLevel.ERROR);
+});
+
+afterAll(() => {
+  logger.setLevel(LogLevel.INFO);
+});
+
+describe('parseChargerStatus', () => {
+  it('should parse known status values', () => {
+    expect(parseChargerStatus('2')).toBe(ChargerStatus.CHARGING);
+    expect(parseChargerStatus('0')).toBe(ChargerStatus.UNPLUGGED);
+  });
+
+  it('should return null for unknown values', () => {
+    expect(parseChargerStatus('7')).toBeNull();
+    expect(parseChargerStatus('')).toBeNull();
+    expect(parseChargerStatus(undefined)).toBeNull();
+  });
+
+  it('should label statuses', () => {
+    expect(chargerStatusLabel(ChargerStatus.STOPPED)).toBe('stopped');
+    expect(chargerStatusLabel('1')).toBe('plugged');
+    expect(chargerStatusLabel('9')).toBe('9');
+  });
+});
+
+describe('EviqoCharger', () => {
+  let server: EviqoMockServer;
+  let client: EviqoWebsocketConnection;
+  let charger: EviqoCharger;
+
+  async function setStatus(status: ChargerStatus): Promise<void> {
+    server.pushWidgetUpdate(DEVICE_ID, STATUS_PIN, String(status));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+
+  function controlValues(): string[] {
+    return server.commands.filter((c) => c.pin === '15').map((c) => c.value);
+  }
+
+  beforeEach(async () => {
+    server = new EviqoMockServer();
+    await server.start();
+
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD);
+    await client.connect();
+    await client.login();
+    await client.queryDevices();
+    client.extractWidgetMappings(await client.requestChargingStatus(DEVICE_ID));
+
+    charger = new EviqoCharger(client, DEVICE_ID, { sequenceDelay: 0 });
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await server.stop();
+  });
+
+  it('should read the status from the device page and follow updates', async () => {
+    expect(charger.getStatus()).toBe(ChargerStatus.PLUGGED);
+    await setStatus(ChargerStatus.CHARGING);
+    expect(charger.getStatus()).toBe(ChargerStatus.CHARGING);
+  });
+
+  it('should send 1,0 to start a plugged-in charger', async () => {
+    expect(await charger.startCharging()).toBe(true);
+    expect(controlValues()).toEqual(['1', '0']);
+  });
+
+  it('should send 3,0,1,0 to resume a stopped charger', async () => {
+    await setStatus(ChargerStatus.STOPPED);
+    expect(await charger.startCharging()).toBe(true);
+    expect(controlValues()).toEqual(['3', '0', '1', '0']);
+  });
+
+  it('should reset the control pin when a step is not confirmed', async () => {
+    client.disconnect();
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD, {
+      commandTimeout: 100,
+    });
+    await client.connect();
+    await client.login();
+    await client.queryDevices();
+    client.extractWidgetMappings(await client.requestChargingStatus(DEVICE_ID));
+    charger = new EviqoCharger(client, DEVICE_ID, { sequenceDelay: 0 });
+
+    server.commandReply = 'none';
+    await expect(charger.startCharging()).rejects.toBeInstanceOf(TimeoutError);
+    expect(controlValues()).toEqual(['1', '0']);
+  });
+
+  it('should pace the sequence by the sequence delay', async () => {
+    charger = new EviqoCharger(client, DEVICE_ID, { sequenceDelay: 50 });
+    await setStatus(ChargerStatus.STOPPED);
+
+    const started = Date.now();
+    await charger.startCharging();
+    expect(controlValues()).toEqual(['3', '0', '1', '0']);
+    // Three gaps between four values
+    expect(Date.now() - started).toBeGreaterThanOrEqual(140);
+  });
+
+  it('should not start a charger that is already charging', async () => {
+    await setStatus(ChargerStatus.CHARGING);
+    expect(await charger.startCharging()).toBe(false);
+    expect(controlValues()).toEqual([]);
+  });
+
+  it('should refuse to start an unplugged charger', async () => {
+    await setStatus(ChargerStatus.UNPLUGGED);
+    await expect(charger.startCharging()).rejects.toBeInstanceOf(ChargerStateError);
+  });
+
+  it('should send 2,0 to stop a charging charger', async () => {
+    await setStatus(ChargerStatus.CHARGING);
+    expect(await charger.stopCharging()).toBe(true);
+    expect(controlValues()).toEqual(['2', '0']);
+  });
+
+  it('should not stop a charger that is not charging', async () => {
+    expect(await charger.stopCharging()).toBe(false);
+    expect(controlValues()).toEqual([]);
+  });
+
+  it('should validate the current limit against Current max', async () => {
+    expect(charger.getCurrentLimitRange()).toEqual({ min: 6, max: 48, step: 1 });
+
+    server.pushWidgetUpdate(DEVICE_ID, 4, '32');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await expect(charger.setCurrentLimit(40)).rejects.toBeInstanceOf(ValidationError);
+    await expect(charger.setCurrentLimit(2)).rejects.toBeInstanceOf(ValidationError);
+    await expect(charger.setCurrentLimit(16.5)).rejects.toBeInstanceOf(ValidationError);
+
+    await charger.setCurrentLimit(16);
+    expect(server.commands.map((c) => [c.pin, c.value])).toEqual([['3', '16']]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for the typed protocol codec
+ */
+
+import {
+  Command,
+  commandName,
+  decodeMessage,
+  encodeMessage,
+  fixedMessageId,
+  ResponseCode,
+} from '../src/utils/codec';
+
+describe('encodeMessage', () => {
+  it('should fill in the header defaults for a command', () => {
+    const frame = encodeMessage(
+      { command: Command.DEVICE_PAGE, body: { pageId: '1', deviceId: '2', dashboardPageId: null } },
+      0x07
+    );
+    expect(Array.from(frame.subarray(0, 4))).toEqual([0x01, 0x04, 0x00, 0x07]);
+    expect(JSON.parse(frame.subarray(4).toString('utf-8'))).toEqual({
+      pageId: '1',
+      deviceId: '2',
+      dashboardPageId: null,
+    });
+  });
+
+  it('should encode a select device message with byte3 set', () => {
+    const frame = encodeMessage({ command: Command.SELECT_DEVICE, deviceId: '51627' }, 0x09);
+    expect(frame.toString('hex')).toBe('00490109' + Buffer.from('51627').toString('hex'));
+  });
+
+  it('should encode a response code as a big-endian integer', () => {
+    const frame = encodeMessage({ command: Command.RESPONSE, code: ResponseCode.OK }, 0x05);
+    expect(frame.toString('hex')).toBe('00000005000000c8');
+  });
+
+  it('should encode a header-only keepalive', () => {
+    expect(encodeMessage({ command: Command.KEEPALIVE }, 0x02).toString('hex')).toBe('00060002');
+  });
+});
+
+describe('decodeMessage', () => {
+  it('should round-trip a widget update', () => {
+    const frame = encodeMessage(
+      {
+        command: Command.WIDGET_UPDATE,
+        update: { deviceId: '51627', kind: 'vw', pin: '3', value: '32' },
+      },
+      0x11
+    );
+    expect(decodeMessage(frame)).toEqual({
+      command: Command.WIDGET_UPDATE,
+      header: { byte1: 0x00, command: 0x14, byte3: 0x00, messageId: 0x11 },
+      update: { deviceId: '51627', kind: 'vw', pin: '3', value: '32' },
+    });
+  });
+
+  it('should round-trip a graph data request', () => {
+    const body = {
+      deviceId: '51627',
+      dataStreamId: 108,
+      pin: '9',
+      from: 1700000000000,
+      to: 1700003600000,
+      granularity: 'HOURLY' as const,
+    };
+    const frame = encodeMessage({ command: Command.GRAPH_DATA, body }, 0x12);
+    expect(decodeMessage(frame)).toEqual({
+      command: Command.GRAPH_DATA,
+      header: { byte1: 0x01, command: 0x3c, byte3: 0x00, messageId: 0x12 },
+      body,
+    });
+  });
+
+  it('should decode user-driven updates', () => {
+    const frame = Buffer.concat([
+      Buffer.from([0x00, 0x19, 0x00, 0x00]),
+      Buffer.from('51627\0vw\x002\x001', 'binary'),
+    ]);
+    const message = decodeMessage(frame);
+    expect(message?.command).toBe(Command.USER_UPDATE);
+    if (message?.command === Command.USER_UPDATE) {
+      expect(message.update.pin).toBe('2');
+      expect(message.update.value).toBe('1');
+    }
+  });
+
+  it('should decode JSON bodies', () => {
+    const frame = encodeMessage(
+      { command: Command.DEVICE_QUERY, body: { count: 0, docs: [] } },
+      0x04
+    );
+    expect(decodeMessage(frame)).toMatchObject({
+      command: Command.DEVICE_QUERY,
+      body: { count: 0, docs: [] },
+    });
+  });
+
+  it('should decode response codes', () => {
+    const frame = Buffer.from('0000000300000005', 'hex');
+    expect(decodeMessage(frame)).toMatchObject({
+      command: Command.RESPONSE,
+      header: { messageId: 3 },
+      code: ResponseCode.USER_NOT_AUTHENTICATED,
+    });
+  });
+
+  it('should fall back to unknown for unknown commands', () => {
+    const frame = Buffer.from([0x00, 0x7f, 0x00, 0x01, 0xde, 0xad]);
+    const message = decodeMessage(frame);
+    expect(message?.command).toBe('unknown');
+    if (message?.command === 'unknown') {
+      expect(message.header.command).toBe(0x7f);
+      expect(message.body.toString('hex')).toBe('dead');
+    }
+  });
+
+  it('should fall back to unknown for undecodable bodies', () => {
+    const frame = Buffer.concat([Buffer.from([0x01, 0x1b, 0x00, 0x01]), Buffer.from('not json')]);
+    expect(decodeMessage(frame)?.command).toBe('unknown');
+  });
+
+  it('should return null for frames shorter than a header', () => {
+    expect(decodeMessage(Buffer.from([0x00, 0x06]))).toBeNull();
+  });
+});
+
+describe('commandName', () => {
+  it('should name known commands and hex-format unknown ones', () => {
+    expect(commandName(Command.DEVICE_QUERY)).toBe('DEVICE_QUERY');
+    expect(commandName(0x7f)).toBe('0x7f');
+  });
+});
+
+describe('fixedMessageId', () => {
+  it('should return the fixed ids used for login and init', () => {
+    expect(fixedMessageId(Command.LOGIN)).toBe(0x03);
+    expect(fixedMessageId(Command.INIT)).toBe(0x01);
+    expect(fixedMessageId(Command.DEVICE_QUERY)).toBeUndefined();
+  });
+});
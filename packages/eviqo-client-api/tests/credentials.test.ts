@@ -0,0 +1,97 @@
+/**
+ * Tests for credential providers
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CallbackCredentials,
+  credentialsFromEnv,
+  FileCredentials,
+  HashCredentials,
+  PasswordCredentials,
+} from '../src/credentials';
+import { calculateHash } from '../src/utils/hash';
+
+const EMAIL = 'user@example.com';
+const PASSWORD = 'password123';
+const HASH = calculateHash(EMAIL, PASSWORD);
+
+describe('credential providers', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eviqo-credentials-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should hash passwords', async () => {
+    expect(await new PasswordCredentials(EMAIL, PASSWORD).getCredentials()).toEqual({
+      email: EMAIL,
+      hash: HASH,
+    });
+    expect(await new HashCredentials(EMAIL, HASH).getCredentials()).toEqual({
+      email: EMAIL,
+      hash: HASH,
+    });
+  });
+
+  it('should read secret files at every login', async () => {
+    const passwordFile = join(dir, 'password');
+    writeFileSync(passwordFile, `${PASSWORD}\n`);
+    const provider = new FileCredentials(EMAIL, { passwordFile });
+    expect((await provider.getCredentials()).hash).toBe(HASH);
+
+    writeFileSync(passwordFile, 'rotated');
+    expect((await provider.getCredentials()).hash).toBe(calculateHash(EMAIL, 'rotated'));
+
+    const hashFile = join(dir, 'hash');
+    writeFileSync(hashFile, `${HASH}\n`);
+    expect((await new FileCredentials(EMAIL, { hashFile }).getCredentials()).hash).toBe(HASH);
+
+    await expect(
+      new FileCredentials(EMAIL, { hashFile: join(dir, 'missing') }).getCredentials()
+    ).rejects.toThrow();
+  });
+
+  it('should ask the callback at every login', async () => {
+    const callback = jest.fn(async () => ({ email: EMAIL, hash: HASH }));
+    const provider = new CallbackCredentials(callback);
+    await provider.getCredentials();
+    await provider.getCredentials();
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('credentialsFromEnv', () => {
+  it('should prefer hashes over passwords', async () => {
+    const provider = credentialsFromEnv({
+      EVIQO_EMAIL: EMAIL,
+      EVIQO_PASSWORD: 'ignored',
+      EVIQO_PASSWORD_HASH: HASH,
+    });
+    expect(provider).toBeInstanceOf(HashCredentials);
+    expect((await provider!.getCredentials()).hash).toBe(HASH);
+  });
+
+  it('should use secret files and custom prefixes', () => {
+    expect(
+      credentialsFromEnv({ APP_EMAIL: EMAIL, APP_PASSWORD_FILE: '/run/secrets/eviqo' }, 'APP')
+    ).toEqual(new FileCredentials(EMAIL, { passwordFile: '/run/secrets/eviqo' }));
+    expect(
+      credentialsFromEnv({ EVIQO_EMAIL: EMAIL, EVIQO_PASSWORD_HASH_FILE: '/run/secrets/hash' })
+    ).toEqual(new FileCredentials(EMAIL, { hashFile: '/run/secrets/hash' }));
+  });
+
+  it('should return null when the email or every secret is missing', () => {
+    expect(credentialsFromEnv({ EVIQO_PASSWORD: PASSWORD })).toBeNull();
+    expect(credentialsFromEnv({ EVIQO_EMAIL: EMAIL, EVIQO_PASSWORD: '' })).toBeNull();
+    expect(credentialsFromEnv({ EVIQO_EMAIL: EMAIL, EVIQO_PASSWORD: PASSWORD })).toBeInstanceOf(
+      PasswordCredentials
+    );
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for writable datastream bounds and value validation
+ */
+
+import {
+  getStreamBounds,
+  isOnOffDatastream,
+  isWritableStream,
+  pageDatastreams,
+  validateStreamValue,
+} from '../src/datastream';
+import { DeviceRegistry } from '../src/device-registry';
+import { ValidationError } from '../src/errors';
+import { createMockDevicePage } from '../src/mock/fixtures';
+import { DisplayDataStream, EviqoDevicePageModel } from '../src/models/device-page';
+import { DeviceStateStore } from '../src/state-store';
+
+function stream(visualization: Partial<DisplayDataStream['visualization']>): DisplayDataStream {
+  return {
+    id: 1,
+    name: 'Test',
+    pin: 30,
+    units: 'None',
+    visualization: { type: 'VALUE', value: '0', ...visualization },
+  };
+}
+
+describe('getStreamBounds', () => {
+  it('should read the visualization range', () => {
+    expect(getStreamBounds(stream({ min: 6, max: 48, step: 2 }))).toEqual({
+      min: 6,
+      max: 48,
+      step: 2,
+    });
+    expect(getStreamBounds(stream({ min: 0, max: 10, step: 0 }))?.step).toBe(1);
+  });
+
+  it('should treat switches and on/off datastreams as 0/1', () => {
+    expect(getStreamBounds(stream({ type: 'SWITCH' }))).toEqual({ min: 0, max: 1, step: 1 });
+    expect(getStreamBounds(stream({}), true)).toEqual({ min: 0, max: 1, step: 1 });
+    expect(validateStreamValue(stream({ type: 'BUTTON' }), '1', true)).toBe('1');
+    expect(() => validateStreamValue(stream({}), '2', true)).toThrow(/out of range 0-1/);
+  });
+
+  it('should return null for read-only datastreams', () => {
+    expect(getStreamBounds(stream({}))).toBeNull();
+    expect(getStreamBounds(stream({ min: 10, max: 5 }))).toBeNull();
+    expect(isWritableStream(stream({ max: 5 }))).toBe(false);
+  });
+});
+
+describe('validateStreamValue', () => {
+  const current = stream({ min: 6, max: 48, step: 1 });
+
+  it('should accept values within range and on step', () => {
+    expect(validateStreamValue(current, '16')).toBe('16');
+    expect(validateStreamValue(current, 48)).toBe('48');
+    expect(validateStreamValue(stream({ min: 0, max: 1, step: 0.1 }), '0.3')).toBe('0.3');
+  });
+
+  it('should reject out of range, off-step and non-numeric values', () => {
+    expect(() => validateStreamValue(current, '5')).toThrow(ValidationError);
+    expect(() => validateStreamValue(current, 49)).toThrow(/out of range 6-48/);
+    expect(() => validateStreamValue(current, '16.5')).toThrow(/not a multiple/);
+    expect(() => validateStreamValue(current, 'ON')).toThrow(/must be a number/);
+    expect(() => validateStreamValue(current, ' ')).toThrow(ValidationError);
+  });
+
+  it('should reject writes to read-only datastreams', () => {
+    expect(() => validateStreamValue(stream({}), '1')).toThrow(/read-only/);
+  });
+});
+
+/**
+ * Mock page with a second module whose on/off datastream shares the pin of
+ * Current (3) and a third whose on/off datastream shares the name Voltage
+ */
+function collidingPage(): EviqoDevicePageModel {
+  const page = createMockDevicePage(51627);
+  const onOff = (id: number, name: string, pin: number, value: string) => ({
+    name: `Module ${id}`,
+    backgroundColor: '#FFFFFF',
+    onOffDataStream: { id, name, pin, units: 'None', visualization: { type: 'SWITCH', value } },
+    displayDataStreams: [],
+  });
+  page.dashboard.widgets[0].modules.push(onOff(130, 'Lock', 3, '1'), onOff(131, 'Voltage', 21, '0'));
+  return page;
+}
+
+describe('pageDatastreams', () => {
+  it('should list display datastreams followed by the on/off datastream', () => {
+    const page = createMockDevicePage(51627);
+    const streams = pageDatastreams(page);
+
+    expect(streams[0].name).toBe('Status');
+    expect(streams[streams.length - 1]).toBe(
+      page.dashboard.widgets[0].modules[0].onOffDataStream
+    );
+    expect(isOnOffDatastream(page, 20)).toBe(true);
+    expect(isOnOffDatastream(page, '2')).toBe(false);
+  });
+
+  it('should leave out on/off datastreams on the pin of a display datastream', () => {
+    const page = collidingPage();
+    const onPin3 = pageDatastreams(page).filter((s) => s.pin === 3);
+
+    expect(onPin3.map((s) => s.name)).toEqual(['Current']);
+    expect(isOnOffDatastream(page, 3)).toBe(false);
+    expect(isOnOffDatastream(page, 21)).toBe(true);
+  });
+});
+
+describe('on/off datastreams sharing a pin or name', () => {
+  it('should keep the display datastream in the device registry', () => {
+    const registry = new DeviceRegistry();
+    registry.setPage(collidingPage());
+
+    expect(registry.getStreamByPin(51627, 3)?.name).toBe('Current');
+    expect(registry.getStreamByName(51627, 'Voltage')?.pin).toBe(5);
+    expect(registry.getStreamByPin(51627, 21)?.name).toBe('Voltage');
+    expect(registry.isOnOffStream(51627, 3)).toBe(false);
+  });
+
+  it('should keep the display datastream in the state store', () => {
+    const store = new DeviceStateStore();
+    store.loadPage(collidingPage());
+
+    expect(store.getPin(51627, 3)?.name).toBe('Current');
+    expect(store.getValue(51627, 'Voltage')).toBe('241.29');
+    expect(store.getSnapshot(51627)?.values.Voltage).toBe('241.29');
+  });
+});
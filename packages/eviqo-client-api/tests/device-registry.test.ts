@@ -0,0 +1,99 @@
+/**
+ * Tests for the device registry
+ */
+
+import { DeviceRegistry } from '../src/device-registry';
+import {
+  createMockDeviceDocs,
+  createMockDevicePage,
+} from '../src/mock/fixtures';
+
+describe('DeviceRegistry', () => {
+  it('should look up datastreams by id, name and pin', () => {
+    const registry = new DeviceRegistry();
+    registry.setPage(createMockDevicePage(51627));
+
+    expect(registry.getStreamById(51627, 105)?.name).toBe('Current');
+    expect(registry.getStreamByName('51627', 'Voltage')?.pin).toBe(5);
+    expect(registry.getStreamByPin(51627, '2')?.name).toBe('Status');
+    expect(registry.getStreamByPin(51627, 99)).toBeUndefined();
+    expect(registry.getStreamByPin(60001, 2)).toBeUndefined();
+  });
+
+  it('should index on/off datastreams of modules', () => {
+    const registry = new DeviceRegistry();
+    registry.setPage(createMockDevicePage(51627));
+
+    expect(registry.getStreamByPin(51627, 20)?.name).toBe('Schedule');
+    expect(registry.getStreamByName(51627, 'Schedule')?.id).toBe(120);
+    expect(registry.isOnOffStream(51627, '20')).toBe(true);
+    expect(registry.isOnOffStream(51627, 3)).toBe(false);
+    expect(registry.isOnOffStream(60001, 20)).toBe(false);
+  });
+
+  it('should keep maps of different devices apart', () => {
+    const registry = new DeviceRegistry();
+    const first = createMockDevicePage(51627);
+    const second = createMockDevicePage(60001);
+    registry.setPage(first);
+    registry.setPage(second);
+
+    expect(registry.getStreamByPin(51627, 2)).toBe(
+      first.dashboard.widgets[0].modules[0].displayDataStreams[0]
+    );
+    expect(registry.getStreamByPin(60001, 2)).toBe(
+      second.dashboard.widgets[0].modules[0].displayDataStreams[0]
+    );
+  });
+
+  it('should replace the maps when a page is set again', () => {
+    const registry = new DeviceRegistry();
+    registry.setPage(createMockDevicePage(51627));
+
+    const page = createMockDevicePage(51627);
+    page.dashboard.widgets[0].modules[0].displayDataStreams = [];
+    registry.setPage(page);
+
+    expect(registry.get(51627)?.page).toBe(page);
+    expect(registry.getStreamByName(51627, 'Status')).toBeUndefined();
+  });
+
+  it('should replace docs in query order and keep devices with pages', () => {
+    const registry = new DeviceRegistry();
+    registry.setPage(createMockDevicePage(51627));
+    registry.setDocs([createMockDeviceDocs(60001), createMockDeviceDocs(51627)]);
+
+    expect(registry.ids()).toEqual([60001, 51627]);
+    expect(registry.get(51627)?.docs?.name).toBe('Mock Charger 51627');
+
+    registry.setDocs([createMockDeviceDocs(60002)]);
+
+    // 60001 had docs only; 51627 keeps its page until removed explicitly
+    expect(registry.ids()).toEqual([60002, 51627]);
+    expect(registry.get(51627)?.docs).toBeUndefined();
+    expect(registry.getDocs().map((docs) => docs.deviceId)).toEqual([60002]);
+    expect(registry.getPages().map((page) => page.id)).toEqual([51627]);
+  });
+
+  it('should skip docs without a device ID', () => {
+    const registry = new DeviceRegistry();
+    const docs = createMockDeviceDocs(51627);
+    delete docs.deviceId;
+    registry.setDocs([docs]);
+
+    expect(registry.list()).toEqual([]);
+  });
+
+  it('should forget devices', () => {
+    const registry = new DeviceRegistry();
+    registry.setPage(createMockDevicePage(51627));
+    registry.setPage(createMockDevicePage(60001));
+
+    registry.remove('51627');
+    expect(registry.has(51627)).toBe(false);
+    expect(registry.ids()).toEqual([60001]);
+
+    registry.clear();
+    expect(registry.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for request/response correlation
+ */
+
+import {
+  AuthenticationError,
+  DeviceOfflineError,
+  TimeoutError,
+} from '../src/errors';
+import { RequestDispatcher } from '../src/utils/dispatcher';
+import { parseBinaryMessage } from '../src/utils/protocol';
+
+function frame(byte2: number, byte4: number, payload = ''): Buffer {
+  return Buffer.concat([
+    Buffer.from([0x00, byte2, 0x00, byte4]),
+    Buffer.from(payload, 'utf-8'),
+  ]);
+}
+
+describe('RequestDispatcher', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should allocate sequential message ids starting at 0', () => {
+    const dispatcher = new RequestDispatcher();
+    expect(dispatcher.allocateId()).toBe(0);
+    expect(dispatcher.allocateId()).toBe(1);
+    expect(dispatcher.allocateId()).toBe(2);
+  });
+
+  it('should wrap message ids at 256', () => {
+    const dispatcher = new RequestDispatcher();
+    for (let i = 0; i < 256; i++) {
+      dispatcher.allocateId();
+    }
+    expect(dispatcher.allocateId()).toBe(0);
+  });
+
+  it('should skip ids that are still pending', () => {
+    const dispatcher = new RequestDispatcher();
+    dispatcher.register(0, 'FIRST').catch(() => undefined);
+    expect(dispatcher.allocateId()).toBe(1);
+    dispatcher.rejectAll(new Error('done'));
+  });
+
+  it('should resolve the request matching the reply message id', async () => {
+    const dispatcher = new RequestDispatcher();
+    const first = dispatcher.register(4, 'FIRST');
+    const second = dispatcher.register(5, 'SECOND');
+
+    expect(dispatcher.dispatch(parseBinaryMessage(frame(0x1b, 5, '{"n":2}')))).toBe(true);
+    expect(dispatcher.dispatch(parseBinaryMessage(frame(0x1b, 4, '{"n":1}')))).toBe(true);
+
+    await expect(first).resolves.toMatchObject({ payload: { n: 1 } });
+    await expect(second).resolves.toMatchObject({ payload: { n: 2 } });
+    expect(dispatcher.size).toBe(0);
+  });
+
+  it('should not consume frames without a pending request', () => {
+    const dispatcher = new RequestDispatcher();
+    expect(dispatcher.dispatch(parseBinaryMessage(frame(0x04, 9, '{}')))).toBe(false);
+    expect(dispatcher.dispatch({ header: null, payload: null })).toBe(false);
+  });
+
+  it('should reject a request when its timeout expires', async () => {
+    const dispatcher = new RequestDispatcher();
+    const pending = dispatcher.register(7, 'SLOW', 1000);
+
+    jest.advanceTimersByTime(1000);
+
+    await expect(pending).rejects.toThrow('Timed out after 1000ms');
+    await expect(pending).rejects.toBeInstanceOf(TimeoutError);
+    expect(dispatcher.isPending(7)).toBe(false);
+  });
+
+  it('should resolve a request answered with OK', async () => {
+    const dispatcher = new RequestDispatcher();
+    const pending = dispatcher.register(2, 'KEEPALIVE');
+
+    dispatcher.dispatch(parseBinaryMessage(Buffer.from('00000002000000c8', 'hex')));
+
+    await expect(pending).resolves.toMatchObject({ header: { byte4: 2 } });
+  });
+
+  it('should reject a request answered with an error code', async () => {
+    const dispatcher = new RequestDispatcher();
+    const login = dispatcher.register(3, 'LOGIN');
+    const select = dispatcher.register(4, 'DEVICE NUMBER');
+
+    dispatcher.dispatch(parseBinaryMessage(Buffer.from('0000000300000005', 'hex')));
+    dispatcher.dispatch(parseBinaryMessage(Buffer.from('0000000400000012', 'hex')));
+
+    await expect(login).rejects.toBeInstanceOf(AuthenticationError);
+    await expect(login).rejects.toMatchObject({ code: 5 });
+    await expect(select).rejects.toBeInstanceOf(DeviceOfflineError);
+    expect(dispatcher.size).toBe(0);
+  });
+
+  it('should reject duplicate registrations for the same id', async () => {
+    const dispatcher = new RequestDispatcher();
+    dispatcher.register(3, 'LOGIN').catch(() => undefined);
+    await expect(dispatcher.register(3, 'AGAIN')).rejects.toThrow('already has a pending request');
+    dispatcher.rejectAll(new Error('done'));
+  });
+
+  it('should reject all pending requests', async () => {
+    const dispatcher = new RequestDispatcher();
+    const first = dispatcher.register(1, 'FIRST');
+    const second = dispatcher.register(2, 'SECOND');
+
+    dispatcher.rejectAll(new Error('Connection closed'));
+
+    await expect(first).rejects.toThrow('Connection closed');
+    await expect(second).rejects.toThrow('Connection closed');
+    expect(dispatcher.size).toBe(0);
+  });
+
+  it('should drop a cancelled request', () => {
+    const dispatcher = new RequestDispatcher();
+    dispatcher.register(2, 'CANCELLED');
+    dispatcher.cancel(2);
+
+    expect(dispatcher.isPending(2)).toBe(false);
+    expect(dispatcher.dispatch(parseBinaryMessage(frame(0x04, 2, '{}')))).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for response code to error mapping
+ */
+
+import {
+  AuthenticationError,
+  DeviceOfflineError,
+  EviqoError,
+  IllegalCommandError,
+  NotAllowedError,
+  ResponseError,
+  responseError,
+  TimeoutError,
+} from '../src/errors';
+import { ResponseCode } from '../src/utils/codec';
+
+describe('responseError', () => {
+  it('should return null for OK', () => {
+    expect(responseError(ResponseCode.OK, 'LOGIN')).toBeNull();
+  });
+
+  it('should map status codes to error classes', () => {
+    expect(responseError(ResponseCode.USER_NOT_AUTHENTICATED, 'LOGIN')).toBeInstanceOf(
+      AuthenticationError
+    );
+    expect(responseError(ResponseCode.NOT_ALLOWED, 'COMMAND')).toBeInstanceOf(NotAllowedError);
+    expect(responseError(ResponseCode.DEVICE_NOT_IN_NETWORK, 'COMMAND')).toBeInstanceOf(
+      DeviceOfflineError
+    );
+    expect(responseError(ResponseCode.ILLEGAL_COMMAND_BODY, 'PAGE')).toBeInstanceOf(
+      IllegalCommandError
+    );
+    expect(responseError(ResponseCode.TIMEOUT, 'COMMAND')).toBeInstanceOf(TimeoutError);
+  });
+
+  it('should fall back to ResponseError for other codes', () => {
+    const error = responseError(ResponseCode.NO_DATA, 'HISTORY');
+    expect(error?.constructor).toBe(ResponseError);
+    expect(error).toMatchObject({ code: 17 });
+    expect(error?.message).toBe('HISTORY failed: NO_DATA (code 17)');
+  });
+
+  it('should describe unknown codes', () => {
+    expect(responseError(99, 'LOGIN')?.message).toBe('LOGIN failed: UNKNOWN (code 99)');
+  });
+
+  it('should set the error name and base class', () => {
+    const error = responseError(ResponseCode.USER_NOT_AUTHENTICATED, 'LOGIN')!;
+    expect(error.name).toBe('AuthenticationError');
+    expect(error).toBeInstanceOf(EviqoError);
+    expect(error).toBeInstanceOf(Error);
+  });
+});
@@ -75,4 +75,15 @@ describe('Logger', () => {
     logger.info('info message 2');
     expect(consoleInfoSpy).toHaveBeenCalled();
   });
+
+  it('should write every level to stderr when asked', () => {
+    const logger = new Logger('test', LogLevel.DEBUG);
+    logger.setStderr(true);
+    logger.debug('debug message');
+    logger.info('info message');
+
+    expect(consoleDebugSpy).not.toHaveBeenCalled();
+    expect(consoleInfoSpy).not.toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(2);
+  });
 });
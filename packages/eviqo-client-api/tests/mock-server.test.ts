@@ -0,0 +1,762 @@
+/**
+ * End-to-end tests against the mock Eviqo cloud server
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import WebSocket from 'ws';
+import { deriveHttpOrigin, EviqoWebsocketConnection } from '../src/client';
+import {
+  AuthenticationError,
+  IllegalCommandError,
+  TimeoutError,
+  ValidationError,
+} from '../src/errors';
+import {
+  createMockDevice,
+  EviqoMockServer,
+  ReceivedCommand,
+} from '../src/mock/server';
+import {
+  createMockDevicePage,
+  MOCK_EMAIL,
+  MOCK_PAGE_ID,
+  MOCK_PASSWORD,
+} from '../src/mock/fixtures';
+import { WidgetUpdate } from '../src/models/widget-update';
+import {
+  AccountUpdatedEvent,
+  ServerVersionChangedEvent,
+} from '../src/models/events';
+import { HashCredentials } from '../src/credentials';
+import { MemorySessionStore } from '../src/session-store';
+import { calculateHash } from '../src/utils/hash';
+import {
+  Command,
+  decodeMessage,
+  encodeMessage,
+  ResponseCode,
+} from '../src/utils/codec';
+import { logger, LogLevel } from '../src/utils/logger';
+
+beforeAll(() => {
+  logger.setLevel(LogLevel.ERROR);
+});
+
+afterAll(() => {
+  logger.setLevel(LogLevel.INFO);
+});
+
+describe('EviqoMockServer', () => {
+  let server: EviqoMockServer;
+  let client: EviqoWebsocketConnection;
+
+  beforeEach(async () => {
+    server = new EviqoMockServer();
+    await server.start();
+
+    // The login page URL is derived from the websocket URL
+    client = new EviqoWebsocketConnection(
+      server.url,
+      null,
+      MOCK_EMAIL,
+      MOCK_PASSWORD
+    );
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await server.stop();
+  });
+
+  it('should log in and fetch devices and the device page', async () => {
+    expect(await client.connect()).toBe(true);
+    await client.login();
+    expect(client.getUser()?.user.email).toBe(MOCK_EMAIL);
+
+    await client.queryDevices();
+    expect(client.getDevices().map((device) => device.deviceId)).toEqual([51627]);
+
+    const page = await client.requestChargingStatus(51627);
+    expect(page.id).toBe(51627);
+    expect(page.dashboard.widgets.length).toBeGreaterThan(0);
+  });
+
+  it('should page through all devices without duplicates', async () => {
+    for (let deviceId = 60001; deviceId <= 60004; deviceId++) {
+      server.addDevice(createMockDevice(deviceId));
+    }
+
+    await client.connect();
+    await client.login();
+
+    const devices = await client.queryDevices({ pageSize: 2 });
+    expect(devices.map((device) => device.deviceId)).toEqual([
+      51627, 60001, 60002, 60003, 60004,
+    ]);
+
+    // Querying again replaces the list instead of appending to it
+    await client.queryDevices({ pageSize: 2 });
+    expect(client.getDevices()).toHaveLength(5);
+  });
+
+  it('should send the configured handshake headers', async () => {
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD, {
+      loginUrl: server.loginUrl,
+      origin: 'https://staging.example.com',
+      userAgent: 'eviqo-test/1.0',
+    });
+
+    const handshake = new Promise<IncomingHttpHeaders>((resolve) =>
+      server.once('connection', resolve)
+    );
+    await client.connect();
+
+    const headers = await handshake;
+    expect(headers.origin).toBe('https://staging.example.com');
+    expect(headers['user-agent']).toBe('eviqo-test/1.0');
+    expect(headers.cookie).toMatch(/^SESSION=/);
+  });
+
+  it('should reject a websocket without a session cookie', async () => {
+    const ws = new WebSocket(server.url);
+    const error = await new Promise<Error>((resolve) => ws.once('error', resolve));
+    expect(error.message).toContain('401');
+  });
+
+  it('should reject a login with the wrong hash', async () => {
+    const cookie = (await fetch(server.loginUrl)).headers.get('set-cookie')!;
+    const ws = new WebSocket(server.url, {
+      headers: { Cookie: cookie.split(';')[0] },
+    });
+    await new Promise((resolve) => ws.once('open', resolve));
+
+    const reply = new Promise<Buffer>((resolve) => ws.once('message', resolve));
+    ws.send(
+      encodeMessage(
+        {
+          command: Command.LOGIN,
+          body: {
+            email: MOCK_EMAIL,
+            hash: calculateHash(MOCK_EMAIL, 'wrong'),
+            clientType: 'web',
+            version: '0.98.2',
+            locale: 'en_US',
+          },
+        },
+        0x03
+      )
+    );
+
+    expect(decodeMessage(await reply)).toMatchObject({
+      command: Command.RESPONSE,
+      header: { messageId: 0x03 },
+      code: ResponseCode.USER_NOT_AUTHENTICATED,
+    });
+    ws.close();
+  });
+
+  it('should reject a login with the wrong password', async () => {
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, 'wrong');
+    await client.connect();
+    await expect(client.login()).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('should log in with a credential provider', async () => {
+    client = new EviqoWebsocketConnection(server.url, null, null, null, {
+      credentials: new HashCredentials(MOCK_EMAIL, calculateHash(MOCK_EMAIL, MOCK_PASSWORD)),
+    });
+    await client.connect();
+    await client.login();
+    expect(client.getUser()?.user.email).toBe(MOCK_EMAIL);
+  });
+
+  it('should match concurrent replies to their requests', async () => {
+    server.addDevice(createMockDevice(60001));
+    await client.connect();
+    await client.login();
+    await client.queryDevices();
+
+    const pages = await Promise.all([
+      client.requestChargingStatus(51627),
+      client.requestChargingStatus(60001),
+    ]);
+    expect(pages.map((page) => page.id)).toEqual([51627, 60001]);
+  });
+
+  it('should report account information and server upgrades', async () => {
+    const accounts: AccountUpdatedEvent[] = [];
+    const upgrades: ServerVersionChangedEvent[] = [];
+    client.on('accountUpdated', (event) => accounts.push(event));
+    client.on('serverVersionChanged', (event) => upgrades.push(event));
+
+    await client.connect();
+    await client.login();
+    expect(client.getAccountInfo()).toEqual(
+      expect.objectContaining({
+        email: MOCK_EMAIL,
+        serverVersion: '0.98.2-mock',
+        sharedOrgsCount: 0,
+        organization: expect.objectContaining({ id: 501 }),
+      })
+    );
+    expect(client.getOrganization()?.id).toBe(501);
+    expect(client.getServerVersion()).toBe('0.98.2-mock');
+    expect(accounts).toEqual([expect.objectContaining({ previous: null })]);
+
+    // Resuming the session reuses the stored account information
+    await client.reconnect();
+    expect(accounts).toHaveLength(1);
+
+    server.user = { ...server.user, serverVersion: '0.99.0-mock', sharedOrgsCount: 2 };
+    server.expireSessions();
+    await client.reconnect();
+    expect(client.getSharedOrgsCount()).toBe(2);
+    expect(upgrades).toEqual([{ previous: '0.98.2-mock', current: '0.99.0-mock' }]);
+  });
+
+  it('should reject a page request for an unknown device', async () => {
+    await client.connect();
+    await client.login();
+    await expect(client.requestChargingStatus(99999)).rejects.toBeInstanceOf(
+      IllegalCommandError
+    );
+  });
+
+  it('should derive the page id from the device tabs', async () => {
+    await client.connect();
+    await client.login();
+    await client.queryDevices();
+
+    await client.requestChargingStatus(51627);
+    await client.requestChargingStatus(51627);
+
+    // The default page reveals the tabs; later requests name the main tab
+    expect(server.pageRequests.map((request) => request.pageId)).toEqual([
+      null,
+      String(MOCK_PAGE_ID),
+    ]);
+    expect(await client.getTabPages(51627)).toEqual([
+      expect.objectContaining({ id: MOCK_PAGE_ID, name: 'Dashboard' }),
+    ]);
+  });
+
+  it('should reuse the tabs of devices with the same template', async () => {
+    server.addDevice(createMockDevice(60001));
+    await client.connect();
+    await client.login();
+    await client.queryDevices();
+
+    await client.requestChargingStatus(51627);
+    await client.requestChargingStatus(60001);
+
+    expect(server.pageRequests.map((request) => request.pageId)).toEqual([
+      null,
+      String(MOCK_PAGE_ID),
+    ]);
+  });
+
+  it('should fetch tabs by id or name', async () => {
+    const device = createMockDevice(51627);
+    device.page.tabPages.push({ id: 17949, name: 'Settings', hideTimeRange: true });
+    const settings = createMockDevicePage(51627);
+    settings.tabPages = device.page.tabPages;
+    settings.dashboard.widgets = [];
+    device.tabs = { 17949: settings };
+    server.addDevice(device);
+
+    await client.connect();
+    await client.login();
+    await client.queryDevices();
+
+    const page = await client.requestDevicePage(51627, 'Settings');
+    expect(page.dashboard.widgets).toEqual([]);
+    // Other tabs do not replace the main page
+    expect(client.getDevicePages()[0].dashboard.widgets).toHaveLength(1);
+
+    const pages = await client.requestDevicePages(51627);
+    expect(pages.map((p) => p.dashboard.widgets.length)).toEqual([1, 0]);
+    expect(server.pageRequests.slice(-2).map((request) => request.pageId)).toEqual([
+      String(MOCK_PAGE_ID),
+      '17949',
+    ]);
+
+    await expect(client.requestDevicePage(51627, 'Missing')).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+
+  it('should fetch datastream history', async () => {
+    const device = createMockDevice(51627);
+    const start = Date.UTC(2025, 0, 1);
+    device.history = {
+      9: [
+        { time: new Date(start + 120000), value: 2.5 },
+        { time: new Date(start), value: 1.25 },
+        { time: new Date(start + 60000), value: 2 },
+      ],
+    };
+    server.addDevice(device);
+
+    await client.connect();
+    await client.login();
+    await client.requestChargingStatus(51627);
+
+    const history = await client.getHistory(51627, 'Session power', {
+      from: start,
+      to: new Date(start + 90000),
+      granularity: 'RAW',
+    });
+    expect(history).toEqual({
+      deviceId: '51627',
+      pin: '9',
+      name: 'Session power',
+      granularity: 'RAW',
+      from: new Date(start),
+      to: new Date(start + 90000),
+      points: [
+        { time: new Date(start), value: 1.25 },
+        { time: new Date(start + 60000), value: 2 },
+      ],
+    });
+
+    // Pins work too; a range without data is empty rather than an error
+    const empty = await client.getHistory(51627, 9, { from: 0, to: 1000 });
+    expect(empty.points).toEqual([]);
+
+    await expect(client.getHistory(51627, 'Missing', { from: 0 })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(
+      client.getHistory(51627, 9, { from: start, to: start - 1 })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should deliver scripted widget updates', async () => {
+    await client.connect();
+    await client.login();
+    await client.queryDevices();
+    client.extractWidgetMappings(await client.requestChargingStatus(51627));
+
+    const updates: WidgetUpdate[] = [];
+    client.on('widgetUpdate', (update) => updates.push(update));
+
+    await server.playScript([
+      { delay: 0, deviceId: 51627, pin: 5, value: '240.10' },
+      { delay: 10, deviceId: 51627, pin: 2, value: '2' },
+    ]);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(updates.map((u) => [u.widgetStream.name, u.widgetValue])).toEqual([
+      ['Voltage', '240.10'],
+      ['Status', '2'],
+    ]);
+  });
+
+  it('should subscribe to every device and route their updates', async () => {
+    server.addDevice(createMockDevice(60001));
+    await client.connect();
+    await client.login();
+
+    const added: string[] = [];
+    client.on('deviceAdded', ({ device }) => added.push(String(device.deviceId)));
+    const pages = await client.subscribeAll();
+    expect(pages.map((page) => page.id)).toEqual([51627, 60001]);
+    expect(added).toEqual(['51627', '60001']);
+
+    const updates: WidgetUpdate[] = [];
+    client.on('widgetUpdate', (update) => updates.push(update));
+    server.pushWidgetUpdate(60001, 5, '230.00');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(updates.map((u) => [u.deviceId, u.widgetStream.name])).toEqual([
+      ['60001', 'Voltage'],
+    ]);
+  });
+
+  it('should pick up added and removed devices on reconnect', async () => {
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD, {
+      reconnect: { initialDelay: 10, jitter: 0 },
+    });
+    await client.connect();
+    await client.login();
+    await client.subscribeAll();
+
+    const added: string[] = [];
+    const removed: string[] = [];
+    client.on('deviceAdded', ({ device }) => added.push(String(device.deviceId)));
+    client.on('deviceRemoved', ({ deviceId }) => removed.push(deviceId));
+    const reconnected = new Promise((resolve) => client.once('reconnected', resolve));
+
+    server.removeDevice(51627);
+    server.addDevice(createMockDevice(60002));
+    server.dropConnections();
+    await reconnected;
+
+    expect(added).toEqual(['60002']);
+    expect(removed).toEqual(['51627']);
+    expect(client.getDevicePages().map((page) => page.id)).toEqual([60002]);
+    expect(client.getSnapshot(51627)).toBeUndefined();
+  });
+
+  it('should keep running across dropped connections until disconnected', async () => {
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD, {
+      reconnect: { initialDelay: 10, jitter: 0 },
+    });
+    const subscribed = new Promise((resolve) => client.once('deviceAdded', resolve));
+    let stopped = false;
+    const running = client.run().then(() => {
+      stopped = true;
+    });
+    await subscribed;
+
+    const reconnected = new Promise((resolve) => client.once('reconnected', resolve));
+    server.dropConnections();
+    await reconnected;
+    expect(stopped).toBe(false);
+    expect(client.isConnected()).toBe(true);
+    expect(await client.queryDevices()).toHaveLength(1);
+
+    client.disconnect();
+    await running;
+    expect(stopped).toBe(true);
+  });
+
+  it('should end run() when the connection drops without a reconnect policy', async () => {
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD, {
+      reconnect: { enabled: false },
+    });
+    const subscribed = new Promise((resolve) => client.once('deviceAdded', resolve));
+    const running = client.run();
+    await subscribed;
+
+    server.dropConnections();
+    await running;
+    expect(client.isReconnecting()).toBe(false);
+  });
+
+  it('should reject reconnect() when the attempt fails', async () => {
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD, {
+      reconnect: { enabled: false },
+    });
+    await client.connect();
+    await client.login();
+
+    const failed = jest.fn();
+    client.on('reconnectFailed', failed);
+    await server.stop();
+
+    await expect(client.reconnect()).rejects.toThrow();
+    expect(failed).toHaveBeenCalledWith({ attempts: 1 });
+  });
+
+  it('should emit reconnectFailed once when the last attempt fails', async () => {
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, 'wrong', {
+      reconnect: { initialDelay: 10, jitter: 0, maxAttempts: 1 },
+    });
+    await client.connect();
+
+    const failed = jest.fn();
+    client.on('reconnectFailed', failed);
+    const gaveUp = new Promise((resolve) => client.once('reconnectFailed', resolve));
+
+    await expect(client.reconnect()).rejects.toThrow(AuthenticationError);
+    await gaveUp;
+    // Let the close of the terminated socket come through
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(failed).toHaveBeenCalledWith({ attempts: 1 });
+  });
+
+  it('should resume the session on reconnect without logging in again', async () => {
+    await client.connect();
+    await client.login();
+    expect(server.loginCount).toBe(1);
+
+    await client.reconnect();
+    expect(server.loginCount).toBe(1);
+    expect(client.getUser()?.user.email).toBe(MOCK_EMAIL);
+    expect(await client.queryDevices()).toHaveLength(1);
+  });
+
+  it('should log in again when the stored session has expired', async () => {
+    await client.connect();
+    await client.login();
+
+    server.expireSessions();
+    await client.reconnect();
+    expect(server.loginCount).toBe(2);
+    expect(await client.queryDevices()).toHaveLength(1);
+  });
+
+  it('should fetch a new cookie when the stored one is rejected', async () => {
+    client = new EviqoWebsocketConnection(server.url, 'expired', MOCK_EMAIL, MOCK_PASSWORD);
+
+    expect(await client.connect()).toBe(true);
+    await client.login();
+    expect(server.loginCount).toBe(1);
+  });
+
+  it('should share sessions between clients through the session store', async () => {
+    const sessionStore = new MemorySessionStore();
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD, {
+      sessionStore,
+    });
+    await client.connect();
+    await client.login();
+    client.disconnect();
+    expect(sessionStore.load()?.email).toBe(MOCK_EMAIL);
+
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD, {
+      sessionStore,
+    });
+    await client.connect();
+    await client.login();
+    expect(server.loginCount).toBe(1);
+    expect(client.getUser()?.user.email).toBe(MOCK_EMAIL);
+  });
+
+  it('should log in again when the stored session closes its connection', async () => {
+    const sessionStore = new MemorySessionStore();
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD, {
+      sessionStore,
+    });
+    await client.connect();
+    await client.login();
+    client.disconnect();
+
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD, {
+      sessionStore,
+    });
+    await client.connect();
+    server.dropConnections();
+    await client.login();
+    expect(server.loginCount).toBe(2);
+    expect(client.isReconnecting()).toBe(false);
+    expect(await client.queryDevices()).toHaveLength(1);
+  });
+
+  it('should report device page changes on refresh', async () => {
+    await client.connect();
+    await client.login();
+    await client.subscribeAll();
+
+    const events: unknown[] = [];
+    client.on('deviceChanged', (event) => events.push(event));
+
+    expect(await client.refreshDevicePages()).toEqual([]);
+
+    const page = server.getDevice(51627)!.page;
+    page.hardwareInfo.version = '1.1.0';
+    page.dashboard.widgets[0].modules[0].displayDataStreams.push({
+      id: 110,
+      name: 'Temperature',
+      pin: 11,
+      units: 'Celsius',
+      visualization: { type: 'VALUE', value: '21' },
+    });
+
+    const diffs = await client.refreshDevicePages();
+    expect(diffs).toHaveLength(1);
+    expect(diffs[0].addedStreams.map((s) => s.name)).toEqual(['Temperature']);
+    expect(diffs[0].hardwareInfo).toEqual([
+      { field: 'version', before: '1.0.0', after: '1.1.0' },
+    ]);
+    expect(events).toEqual([
+      { diff: diffs[0], devicePage: client.getDevicePages()[0] },
+    ]);
+    expect(client.getDeviceRegistry().getStreamByPin(51627, 11)?.name).toBe(
+      'Temperature'
+    );
+  });
+
+  it('should refresh device pages on the configured interval', async () => {
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD, {
+      pageRefreshInterval: 30,
+    });
+    await client.connect();
+    await client.login();
+    await client.subscribeAll();
+
+    const changed = new Promise((resolve) => client.once('deviceChanged', resolve));
+    server.getDevice(51627)!.page.name = 'Garage';
+
+    await expect(changed).resolves.toEqual(
+      expect.objectContaining({
+        diff: expect.objectContaining({
+          name: { before: 'Mock Charger 51627', after: 'Garage' },
+        }),
+      })
+    );
+  });
+
+  it('should keep device state current and emit state changes', async () => {
+    await client.connect();
+    await client.login();
+    await client.queryDevices();
+    await client.requestChargingStatus(51627);
+
+    const changes: unknown[] = [];
+    client.on('stateChanged', (change) => changes.push(change));
+
+    server.pushWidgetUpdate(51627, 4, '32');
+    server.pushWidgetUpdate(51627, 4, '32');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(client.getValue(51627, 'Current max')).toBe('32');
+    expect(client.getSnapshot(51627)?.values['Current max']).toBe('32');
+    expect(changes).toEqual([
+      expect.objectContaining({ name: 'Current max', oldValue: '48', newValue: '32' }),
+    ]);
+
+    const stream = client
+      .getDevicePages()[0]
+      .dashboard.widgets[0].modules[0].displayDataStreams.find((s) => s.pin === 4);
+    expect(stream?.visualization.value).toBe('32');
+  });
+
+  it('should emit state changes missed while disconnected on the next page fetch', async () => {
+    await client.connect();
+    await client.login();
+    await client.queryDevices();
+    await client.requestChargingStatus(51627);
+    client.disconnect();
+
+    // The charger starts charging while the client is away
+    server.pushWidgetUpdate(51627, 2, '2');
+
+    const changes: unknown[] = [];
+    client.on('stateChanged', (change) => changes.push(change));
+    await client.connect();
+    await client.login();
+    await client.requestChargingStatus(51627);
+
+    expect(changes).toEqual([
+      expect.objectContaining({ name: 'Status', oldValue: '1', newValue: '2' }),
+    ]);
+  });
+
+  it('should accept widget commands', async () => {
+    await client.connect();
+    await client.login();
+
+    const received = new Promise<ReceivedCommand>((resolve) =>
+      server.once('command', resolve)
+    );
+    const confirmed = await client.sendCommand('51627', '3', '40');
+    expect(confirmed).toMatchObject({ pin: '3', value: '40', confirmedBy: 'ack' });
+
+    const command = await received;
+    expect(command).toMatchObject({ deviceId: '51627', pin: '3', value: '40' });
+    expect(server.commands).toHaveLength(1);
+  });
+
+  it('should confirm commands by the widget update when there is no ack', async () => {
+    server.commandReply = 'update';
+    await client.connect();
+    await client.login();
+
+    const confirmed = await client.sendCommand('51627', '3', '16');
+    expect(confirmed.confirmedBy).toBe('update');
+  });
+
+  it('should not confirm commands by an update with another value', async () => {
+    server.commandReply = 'none';
+    await client.connect();
+    await client.login();
+
+    const confirmed = jest.fn();
+    const received = new Promise((resolve) => server.once('command', resolve));
+    const command = client.sendCommand('51627', '3', '16', 1000);
+    command.then(confirmed, () => undefined);
+    await received;
+
+    // A status report sent before the charger applied the command
+    server.pushWidgetUpdate(51627, 3, '32');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(confirmed).not.toHaveBeenCalled();
+
+    server.pushWidgetUpdate(51627, 3, '16');
+    await expect(command).resolves.toMatchObject({ value: '16', confirmedBy: 'update' });
+  });
+
+  it('should reject unconfirmed commands after the timeout', async () => {
+    server.commandReply = 'none';
+    await client.connect();
+    await client.login();
+
+    const failed = jest.fn();
+    client.on('commandFailed', failed);
+
+    await expect(client.sendCommand('51627', '3', '16', 100)).rejects.toBeInstanceOf(
+      TimeoutError
+    );
+    expect(failed).toHaveBeenCalledWith(
+      expect.objectContaining({ pin: '3', value: '16', error: expect.any(TimeoutError) })
+    );
+  });
+
+  it('should reject commands refused by the server', async () => {
+    await client.connect();
+    await client.login();
+
+    await expect(client.sendCommand('99999', '3', '16')).rejects.toBeInstanceOf(
+      IllegalCommandError
+    );
+  });
+
+  it('should write values within the datastream bounds', async () => {
+    await client.connect();
+    await client.login();
+    await client.queryDevices();
+    await client.requestChargingStatus(51627);
+
+    const confirmed = await client.writeValue(51627, 'Current', 16);
+    expect(confirmed).toMatchObject({ deviceId: '51627', pin: '3', value: '16' });
+
+    await expect(client.writeValue(51627, 3, '50')).rejects.toBeInstanceOf(ValidationError);
+    await expect(client.writeValue(51627, 'Voltage', '230')).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(client.writeValue(51627, 'Missing', '1')).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    expect(server.commands.map((c) => c.value)).toEqual(['16']);
+  });
+
+  it('should write and report module on/off datastreams', async () => {
+    await client.connect();
+    await client.login();
+    await client.queryDevices();
+    await client.requestChargingStatus(51627);
+
+    const updates: WidgetUpdate[] = [];
+    client.on('widgetUpdate', (update) => updates.push(update));
+
+    await client.writeValue(51627, 'Schedule', '1');
+    await expect(client.writeValue(51627, 20, 'ON')).rejects.toBeInstanceOf(ValidationError);
+    expect(server.commands).toEqual([expect.objectContaining({ pin: '20', value: '1' })]);
+
+    server.pushWidgetUpdate(51627, 20, '0');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(updates.map((u) => [u.widgetStream.name, u.widgetValue])).toEqual([
+      ['Schedule', '1'],
+      ['Schedule', '0'],
+    ]);
+    expect(client.getValue(51627, 'Schedule')).toBe('0');
+  });
+
+  it('should answer requests before login with not authenticated', async () => {
+    await client.connect();
+    const reply = await client.call({ command: Command.KEEPALIVE });
+    expect(reply).toMatchObject({ command: Command.RESPONSE, code: ResponseCode.OK });
+
+    await expect(client.queryDevices()).rejects.toBeInstanceOf(AuthenticationError);
+  });
+});
+
+describe('deriveHttpOrigin', () => {
+  it('should map websocket URLs to their HTTP origin', () => {
+    expect(deriveHttpOrigin('wss://app.eviqo.io/dashws')).toBe('https://app.eviqo.io');
+    expect(deriveHttpOrigin('ws://127.0.0.1:8080/dashws')).toBe('http://127.0.0.1:8080');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for device page diffing
+ */
+
+import { createMockDevicePage } from '../src/mock/fixtures';
+import { diffDevicePages, hasPageChanges } from '../src/page-diff';
+
+function streams(page: ReturnType<typeof createMockDevicePage>) {
+  return page.dashboard.widgets[0].modules[0].displayDataStreams;
+}
+
+describe('diffDevicePages', () => {
+  it('should ignore datastream values', () => {
+    const before = createMockDevicePage(51627);
+    const after = createMockDevicePage(51627);
+    streams(after)[0].visualization.value = '2';
+
+    const diff = diffDevicePages(before, after);
+    expect(hasPageChanges(diff)).toBe(false);
+    expect(diff.deviceId).toBe('51627');
+  });
+
+  it('should report added, removed and changed datastreams by pin', () => {
+    const before = createMockDevicePage(51627);
+    const after = createMockDevicePage(51627);
+    const current = streams(after).find((s) => s.name === 'Current')!;
+    current.visualization.max = 32;
+    const removed = streams(after).splice(
+      streams(after).findIndex((s) => s.name === 'Session cost'),
+      1
+    )[0];
+    streams(after).push({
+      id: 110,
+      name: 'Temperature',
+      pin: 11,
+      units: 'Celsius',
+      visualization: { type: 'VALUE', value: '21' },
+    });
+
+    const diff = diffDevicePages(before, after);
+    expect(diff.addedStreams.map((s) => s.name)).toEqual(['Temperature']);
+    expect(diff.removedStreams.map((s) => s.name)).toEqual([removed.name]);
+    expect(diff.changedStreams).toEqual([
+      expect.objectContaining({ pin: '3', after: current }),
+    ]);
+    expect(diff.changedStreams[0].before.visualization.max).toBe(48);
+  });
+
+  it('should report changes to on/off datastreams', () => {
+    const before = createMockDevicePage(51627);
+    const after = createMockDevicePage(51627);
+    after.dashboard.widgets[0].modules[0].onOffDataStream.name = 'Lock';
+
+    const diff = diffDevicePages(before, after);
+    expect(diff.changedStreams).toEqual([
+      expect.objectContaining({ pin: '20', after: expect.objectContaining({ name: 'Lock' }) }),
+    ]);
+  });
+
+  it('should report name, meta field and hardware info changes', () => {
+    const before = createMockDevicePage(51627);
+    const after = createMockDevicePage(51627, 'Garage');
+    after.hardwareInfo.version = '2.0.0';
+    after.metaFields = [
+      ...after.metaFields,
+      {
+        id: 99,
+        name: 'Location',
+        type: 'Text',
+        value: 'Garage',
+        isEditableByUser: true,
+        includeInProvision: false,
+        isMandatory: false,
+        isExcludedFromRecentUsed: false,
+        isDisabled: false,
+        isDefault: false,
+      },
+    ];
+
+    const diff = diffDevicePages(before, after);
+    expect(diff.name).toEqual({ before: 'Mock Charger 51627', after: 'Garage' });
+    expect(diff.hardwareInfo).toEqual([
+      { field: 'version', before: before.hardwareInfo.version, after: '2.0.0' },
+    ]);
+    expect(diff.metaFields).toEqual([
+      { before: undefined, after: expect.objectContaining({ id: 99 }) },
+    ]);
+    expect(hasPageChanges(diff)).toBe(true);
+  });
+});
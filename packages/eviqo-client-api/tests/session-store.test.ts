@@ -0,0 +1,69 @@
+/**
+ * Tests for session persistence
+ */
+
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FileSessionStore,
+  sessionCookieHeader,
+  StoredSession,
+} from '../src/session-store';
+import { logger, LogLevel } from '../src/utils/logger';
+
+const SESSION: StoredSession = {
+  cookie: 'SESSION=abc123',
+  email: 'user@example.com',
+  user: null,
+  savedAt: '2025-01-01T00:00:00.000Z',
+};
+
+beforeAll(() => {
+  logger.setLevel(LogLevel.ERROR);
+});
+
+afterAll(() => {
+  logger.setLevel(LogLevel.INFO);
+});
+
+describe('FileSessionStore', () => {
+  let dir: string;
+  let store: FileSessionStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eviqo-session-'));
+    store = new FileSessionStore(join(dir, 'session.json'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save, load and clear a session', async () => {
+    expect(await store.load()).toBeNull();
+
+    await store.save(SESSION);
+    expect(await store.load()).toEqual(SESSION);
+    expect(statSync(store.path).mode & 0o777).toBe(0o600);
+
+    await store.clear();
+    expect(await store.load()).toBeNull();
+    await store.clear();
+  });
+
+  it('should ignore unreadable files', async () => {
+    writeFileSync(store.path, 'not json');
+    expect(await store.load()).toBeNull();
+
+    writeFileSync(store.path, '{"email":"user@example.com"}');
+    expect(await store.load()).toBeNull();
+  });
+});
+
+describe('sessionCookieHeader', () => {
+  it('should name bare session ids and keep cookie headers', () => {
+    expect(sessionCookieHeader('abc123')).toBe('SESSION=abc123');
+    expect(sessionCookieHeader('SESSION=abc123; lang=en')).toBe('SESSION=abc123; lang=en');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Tests for charging session tracking against the mock server
+ */
+
+import { EviqoWebsocketConnection } from '../src/client';
+import { ChargerStatus } from '../src/charger';
+import { createMockDevice, EviqoMockServer } from '../src/mock/server';
+import { MOCK_EMAIL, MOCK_PASSWORD } from '../src/mock/fixtures';
+import {
+  ChargingSession,
+  parseSessionDuration,
+  SessionTracker,
+  sessionsToCsv,
+  sessionsToJson,
+} from '../src/session-tracker';
+import { logger, LogLevel } from '../src/utils/logger';
+
+const DEVICE_ID = 51627;
+const STATUS_PIN = 2;
+const POWER_PIN = 7;
+const DURATION_PIN = 8;
+const ENERGY_PIN = 9;
+const COST_PIN = 10;
+
+beforeAll(() => {
+  logger.setLevel(LogLevel.ERROR);
+});
+
+afterAll(() => {
+  logger.setLevel(LogLevel.INFO);
+});
+
+describe('parseSessionDuration', () => {
+  it('should parse HH:MM:SS', () => {
+    expect(parseSessionDuration('01:02:03')).toBe(3723);
+    expect(parseSessionDuration('125:00:00')).toBe(450000);
+    expect(parseSessionDuration('soon')).toBeNull();
+  });
+});
+
+describe('sessionsToCsv', () => {
+  it('should write one row per session', () => {
+    const session: ChargingSession = {
+      deviceId: '51627',
+      start: new Date('2025-01-01T10:00:00Z'),
+      end: null,
+      durationSeconds: 60,
+      energyKwh: 1.5,
+      cost: null,
+      peakPowerKw: 7.2,
+      source: 'live',
+    };
+    expect(sessionsToCsv([session])).toBe(
+      'deviceId,start,end,durationSeconds,energyKwh,cost,peakPowerKw,source\n' +
+        '51627,2025-01-01T10:00:00.000Z,,60,1.5,,7.2,live\n'
+    );
+    expect(JSON.parse(sessionsToJson([session]))[0].start).toBe('2025-01-01T10:00:00.000Z');
+  });
+});
+
+describe('SessionTracker', () => {
+  let server: EviqoMockServer;
+  let client: EviqoWebsocketConnection;
+  let tracker: SessionTracker;
+
+  async function push(pin: number, value: string): Promise<void> {
+    server.pushWidgetUpdate(DEVICE_ID, pin, value);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+
+  async function connect(): Promise<void> {
+    await server.start();
+    client = new EviqoWebsocketConnection(server.url, null, MOCK_EMAIL, MOCK_PASSWORD);
+    await client.connect();
+    await client.login();
+    await client.subscribeAll();
+    tracker = new SessionTracker(client);
+  }
+
+  afterEach(async () => {
+    tracker.stop();
+    client.disconnect();
+    await server.stop();
+  });
+
+  it('should build sessions from live status and session values', async () => {
+    server = new EviqoMockServer();
+    await connect();
+    tracker.start();
+
+    const started: ChargingSession[] = [];
+    const ended: ChargingSession[] = [];
+    tracker.on('sessionStarted', (session) => started.push(session));
+    tracker.on('sessionEnded', (session) => ended.push(session));
+
+    await push(STATUS_PIN, String(ChargerStatus.CHARGING));
+    await push(POWER_PIN, '7.1');
+    await push(POWER_PIN, '6.5');
+    await push(DURATION_PIN, '00:45:00');
+    await push(ENERGY_PIN, '5.25');
+    await push(COST_PIN, '1.05');
+
+    expect(started).toHaveLength(1);
+    expect(tracker.getActiveSession(DEVICE_ID)).toEqual(
+      expect.objectContaining({ end: null, energyKwh: 5.25, peakPowerKw: 7.1 })
+    );
+
+    // Stopped sessions stay open until the vehicle is unplugged
+    await push(STATUS_PIN, String(ChargerStatus.STOPPED));
+    expect(ended).toHaveLength(0);
+    await push(STATUS_PIN, String(ChargerStatus.UNPLUGGED));
+
+    expect(ended).toEqual([
+      expect.objectContaining({
+        deviceId: String(DEVICE_ID),
+        durationSeconds: 2700,
+        energyKwh: 5.25,
+        cost: 1.05,
+        peakPowerKw: 7.1,
+        source: 'live',
+      }),
+    ]);
+    expect(ended[0].end).toBeInstanceOf(Date);
+    expect(tracker.getActiveSession(DEVICE_ID)).toBeUndefined();
+    expect(tracker.getSessions(DEVICE_ID)).toHaveLength(1);
+  });
+
+  it('should rebuild sessions from history', async () => {
+    const start = Date.UTC(2025, 0, 1, 8);
+    const at = (minutes: number) => new Date(start + minutes * 60000);
+    const device = createMockDevice(DEVICE_ID);
+    device.history = {
+      [STATUS_PIN]: [
+        { time: at(0), value: ChargerStatus.PLUGGED },
+        { time: at(10), value: ChargerStatus.CHARGING },
+        { time: at(70), value: ChargerStatus.PLUGGED },
+        { time: at(100), value: ChargerStatus.CHARGING },
+      ],
+      [POWER_PIN]: [
+        { time: at(20), value: 7.4 },
+        { time: at(40), value: 11 },
+        { time: at(110), value: 3 },
+      ],
+      [DURATION_PIN]: [{ time: at(69), value: 59 }],
+      [ENERGY_PIN]: [{ time: at(69), value: 9.5 }],
+      [COST_PIN]: [{ time: at(69), value: 1.9 }],
+    };
+    server = new EviqoMockServer({ devices: [device] });
+    await connect();
+
+    const getHistory = jest.spyOn(client, 'getHistory');
+    const added = await tracker.backfill(DEVICE_ID, { from: at(0), to: at(120) });
+
+    // Session duration values are HH:MM:SS, never numeric history points
+    expect(getHistory.mock.calls.map(([, name]) => name)).not.toContain('Session duration');
+
+    // The session still open at the end of the range is left out
+    expect(added).toEqual([
+      {
+        deviceId: String(DEVICE_ID),
+        start: at(10),
+        end: at(70),
+        durationSeconds: 3600,
+        energyKwh: 9.5,
+        cost: 1.9,
+        peakPowerKw: 11,
+        source: 'history',
+      },
+    ]);
+
+    // Backfilling the same range again adds nothing
+    expect(await tracker.backfill(DEVICE_ID, { from: at(0), to: at(120) })).toEqual([]);
+    expect(tracker.getSessions()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for the live device state store
+ */
+
+import { createMockDevicePage } from '../src/mock/fixtures';
+import { DeviceStateStore } from '../src/state-store';
+
+describe('DeviceStateStore', () => {
+  it('should seed values from a device page', () => {
+    const store = new DeviceStateStore();
+    store.loadPage(createMockDevicePage(51627));
+
+    expect(store.getValue(51627, 'Voltage')).toBe('241.29');
+    expect(store.getPin('51627', 3)?.name).toBe('Current');
+    expect(store.getValue(51627, 'Schedule')).toBe('0');
+  });
+
+  it('should apply updates and write them back to the page', () => {
+    const store = new DeviceStateStore();
+    const page = createMockDevicePage(51627);
+    store.loadPage(page);
+
+    const time = new Date('2025-01-01T00:00:00Z');
+    const change = store.apply('51627', '4', '32', time);
+
+    expect(change).toEqual({
+      deviceId: '51627',
+      pin: '4',
+      name: 'Current max',
+      oldValue: '48',
+      newValue: '32',
+      time,
+    });
+    expect(store.getValue(51627, 'Current max')).toBe('32');
+
+    const stream = page.dashboard.widgets[0].modules[0].displayDataStreams.find(
+      (s) => s.name === 'Current max'
+    );
+    expect(stream?.visualization.value).toBe('32');
+  });
+
+  it('should report values that changed since the previous page', () => {
+    const store = new DeviceStateStore();
+    expect(store.loadPage(createMockDevicePage(51627))).toEqual([]);
+
+    const page = createMockDevicePage(51627);
+    page.dashboard.widgets[0].modules[0].displayDataStreams.find(
+      (s) => s.name === 'Status'
+    )!.visualization.value = '2';
+    const changes = store.loadPage(page);
+
+    expect(changes).toEqual([
+      expect.objectContaining({ deviceId: '51627', name: 'Status', oldValue: '1', newValue: '2' }),
+    ]);
+    expect(store.getValue(51627, 'Status')).toBe('2');
+    expect(store.loadPage(page)).toEqual([]);
+  });
+
+  it('should not report unchanged values as changes', () => {
+    const store = new DeviceStateStore();
+    store.loadPage(createMockDevicePage(51627));
+    expect(store.apply(51627, 5, '241.29')).toBeNull();
+    expect(store.getPin(51627, 5)?.value).toBe('241.29');
+  });
+
+  it('should record pins that are not on the page', () => {
+    const store = new DeviceStateStore();
+    store.loadPage(createMockDevicePage(51627));
+    const change = store.apply(51627, 99, '1');
+    expect(change).toMatchObject({ pin: '99', oldValue: undefined, newValue: '1' });
+    expect(change?.name).toBeUndefined();
+    expect(store.getPin(51627, 99)?.value).toBe('1');
+  });
+
+  it('should return an independent snapshot', () => {
+    const store = new DeviceStateStore();
+    store.loadPage(createMockDevicePage(51627));
+    const time = new Date(Date.now() + 60000);
+    store.apply(51627, 2, '2', time);
+
+    const snapshot = store.getSnapshot(51627)!;
+    expect(snapshot.values.Status).toBe('2');
+    expect(snapshot.pins['2'].updatedAt).toBe(time);
+    expect(snapshot.updatedAt).toBe(time);
+
+    store.apply(51627, 2, '3');
+    expect(snapshot.values.Status).toBe('2');
+    expect(snapshot.pins['2'].value).toBe('2');
+  });
+
+  it('should return undefined for unknown devices', () => {
+    const store = new DeviceStateStore();
+    expect(store.apply(1, 2, '1')).toBeNull();
+    expect(store.getPin(1, 2)).toBeUndefined();
+    expect(store.getSnapshot(1)).toBeUndefined();
+    expect(store.getValue(1, 'Status')).toBeUndefined();
+  });
+});
@@ -33,10 +33,47 @@ Options:
 
 Environment Variables:
   EVIQO_EMAIL        Eviqo account email (required)
-  EVIQO_PASSWORD     Eviqo account password (required)
+  EVIQO_PASSWORD     Eviqo account password (required unless one of the below is set)
+  EVIQO_PASSWORD_FILE
+                     File holding the password (Docker/Kubernetes secret)
+  EVIQO_PASSWORD_HASH
+                     Pre-computed login hash instead of the password
+  EVIQO_PASSWORD_HASH_FILE
+                     File holding the login hash
   EVIQO_MQTT_URL     MQTT broker URL (required)
                      Format: mqtt://[user:pass@]host[:port]
   EVIQO_LOG_LEVEL    Log level: debug, info, warn, error (default: info)
+  EVIQO_WS_URL       Eviqo cloud websocket URL (default: wss://app.eviqo.io/dashws)
+  EVIQO_LOGIN_URL    Login page for the session cookie
+                     (default: /dashboard/login on the websocket host)
+  EVIQO_ORIGIN       Origin header sent to the websocket (default: the websocket host)
+  EVIQO_USER_AGENT   User-Agent header sent to the websocket (default: a Chrome UA)
+  EVIQO_CLIENT_VERSION
+                     Web client version reported at login (default: 0.98.2)
+  EVIQO_LOCALE       Locale reported at login (default: en_US)
+  EVIQO_SESSION_FILE File the Eviqo session is saved to, so restarts resume it
+  EVIQO_RECONNECT_INITIAL_DELAY
+                     Delay before the first reconnect attempt in ms (default: 1000)
+  EVIQO_RECONNECT_MAX_DELAY
+                     Maximum delay between reconnect attempts in ms (default: 300000)
+  EVIQO_RECONNECT_MAX_ATTEMPTS
+                     Attempts before restarting with a fresh connection
+                     (default: 10, 0 = unlimited)
+  EVIQO_PAGE_REFRESH_INTERVAL
+                     Refetch device pages and republish discovery at this interval
+                     in ms (default: 0 = disabled)
+  HASS_DISCOVERY_MODE
+                     Discovery configs per entity or per device: entity, device
+                     (default: entity)
+  EVIQO_DISCOVERY_FILE
+                     File recording the published discovery configs, so later runs
+                     can remove them
+  EVIQO_MAPPING_FILE YAML or JSON file overriding the widget-to-entity mappings
+  EVIQO_WIDGET_OVERRIDES
+                     JSON widget overrides applied over the mapping file
+  EVIQO_INCLUDE_UNMAPPED
+                     Publish widgets without a mapping as inferred entities
+                     (default: true)
 
 Examples:
   # Start the gateway
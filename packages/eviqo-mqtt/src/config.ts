@@ -2,6 +2,15 @@
  * Configuration management for Eviqo MQTT Gateway
  */
 
+import { CredentialProvider, credentialsFromEnv, WS_URL } from 'eviqo-client-api';
+import {
+  loadMappingFile,
+  MappingFile,
+  mergeMappingFiles,
+  validateWidgetOverrides,
+} from './mappings';
+import type { DiscoveryMode } from './discovery-registry';
+
 export interface MqttConfig {
   url: string;
   clientId: string;
@@ -10,8 +19,28 @@ export interface MqttConfig {
 }
 
 export interface EviqoConfig {
-  email: string;
-  password: string;
+  /** Account email and password hash (see credentialsFromEnv) */
+  credentials: CredentialProvider;
+  /** Websocket URL of the Eviqo cloud */
+  wsUrl: string;
+  /** Login page used to obtain the session cookie (default: derived from wsUrl) */
+  loginUrl?: string;
+  /** Origin header for the websocket handshake (default: derived from wsUrl) */
+  origin?: string;
+  userAgent?: string;
+  clientVersion?: string;
+  locale?: string;
+  /** File the authenticated session is kept in across restarts (default: memory only) */
+  sessionFile?: string;
+}
+
+export interface ReconnectConfig {
+  /** Delay before the first reconnect attempt (ms) */
+  initialDelay: number;
+  /** Upper bound for the exponential backoff delay (ms) */
+  maxDelay: number;
+  /** Attempts before starting over with a fresh client (0 = never give up) */
+  maxAttempts: number;
 }
 
 export interface GatewayConfig {
@@ -19,10 +48,21 @@ export interface GatewayConfig {
   eviqo: EviqoConfig;
   topicPrefix: string;
   discoveryPrefix: string;
+  /** Publish one discovery config per entity, or one per device */
+  discoveryMode: DiscoveryMode;
+  /** File recording the published discovery configs, so later runs can remove them (in memory if unset) */
+  discoveryFile?: string;
+  /** Interval in ms between Eviqo connection health checks */
   pollInterval: number;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   /** Interval in ms to force websocket reconnection (default: 24 hours). Set to 0 to disable. */
   wsReconnectInterval: number;
+  /** Interval in ms to refetch device pages and republish changed discovery. Set to 0 to disable. */
+  pageRefreshInterval: number;
+  /** Backoff settings for automatic reconnection to Eviqo */
+  reconnect: ReconnectConfig;
+  /** Overrides of the built-in widget-to-entity mappings */
+  mappings: MappingFile;
 }
 
 /**
@@ -77,10 +117,64 @@ function buildMqttUrl(): string {
   return url.toString();
 }
 
+/**
+ * Build widget mapping overrides from EVIQO_MAPPING_FILE, EVIQO_WIDGET_OVERRIDES
+ * and EVIQO_INCLUDE_UNMAPPED (later sources win)
+ *
+ * EVIQO_WIDGET_OVERRIDES is JSON: either an object keyed by widget name or a
+ * list of widget overrides with a `name` field (as the add-on options provide).
+ */
+function loadMappings(): MappingFile {
+  const sources: MappingFile[] = [];
+
+  const mappingFile = process.env.EVIQO_MAPPING_FILE;
+  if (mappingFile) {
+    sources.push(loadMappingFile(mappingFile));
+  }
+
+  const overrides = process.env.EVIQO_WIDGET_OVERRIDES;
+  if (overrides) {
+    let widgets: unknown;
+    try {
+      widgets = JSON.parse(overrides);
+    } catch (err) {
+      throw new Error(`EVIQO_WIDGET_OVERRIDES is not valid JSON: ${(err as Error).message}`);
+    }
+    sources.push(validateWidgetOverrides(widgets, 'EVIQO_WIDGET_OVERRIDES'));
+  }
+
+  const includeUnmapped = process.env.EVIQO_INCLUDE_UNMAPPED;
+  if (includeUnmapped) {
+    sources.push({ include_unmapped: includeUnmapped !== 'false' });
+  }
+
+  return mergeMappingFiles(...sources);
+}
+
+/**
+ * Read the discovery mode from HASS_DISCOVERY_MODE (default: entity)
+ */
+function loadDiscoveryMode(): DiscoveryMode {
+  const mode = process.env.HASS_DISCOVERY_MODE || 'entity';
+  if (mode !== 'entity' && mode !== 'device') {
+    throw new Error(`HASS_DISCOVERY_MODE must be "entity" or "device", got "${mode}"`);
+  }
+  return mode;
+}
+
 /**
  * Load configuration from environment variables
  */
 export function loadConfig(): GatewayConfig {
+  // Validate required configuration
+  const credentials = credentialsFromEnv();
+  if (!credentials) {
+    throw new Error(
+      'EVIQO_EMAIL and EVIQO_PASSWORD (or EVIQO_PASSWORD_FILE, EVIQO_PASSWORD_HASH, ' +
+        'EVIQO_PASSWORD_HASH_FILE) environment variables are required'
+    );
+  }
+
   const config: GatewayConfig = {
     mqtt: {
       url: buildMqttUrl(),
@@ -89,20 +183,30 @@ export function loadConfig(): GatewayConfig {
       reconnectPeriod: parseInt(process.env.MQTT_RECONNECT_PERIOD || '5000', 10),
     },
     eviqo: {
-      email: process.env.EVIQO_EMAIL || '',
-      password: process.env.EVIQO_PASSWORD || '',
+      credentials,
+      wsUrl: process.env.EVIQO_WS_URL || WS_URL,
+      loginUrl: process.env.EVIQO_LOGIN_URL || undefined,
+      origin: process.env.EVIQO_ORIGIN || undefined,
+      userAgent: process.env.EVIQO_USER_AGENT || undefined,
+      clientVersion: process.env.EVIQO_CLIENT_VERSION || undefined,
+      locale: process.env.EVIQO_LOCALE || undefined,
+      sessionFile: process.env.EVIQO_SESSION_FILE || undefined,
     },
     topicPrefix: process.env.EVIQO_TOPIC_PREFIX || 'eviqo',
     discoveryPrefix: process.env.HASS_DISCOVERY_PREFIX || 'homeassistant',
+    discoveryMode: loadDiscoveryMode(),
+    discoveryFile: process.env.EVIQO_DISCOVERY_FILE || undefined,
     pollInterval: parseInt(process.env.EVIQO_POLL_INTERVAL || '30000', 10),
     logLevel: (process.env.EVIQO_LOG_LEVEL as GatewayConfig['logLevel']) || 'info',
     wsReconnectInterval: parseInt(process.env.EVIQO_WS_RECONNECT_INTERVAL || '86400000', 10), // 24 hours default
+    pageRefreshInterval: parseInt(process.env.EVIQO_PAGE_REFRESH_INTERVAL || '0', 10),
+    reconnect: {
+      initialDelay: parseInt(process.env.EVIQO_RECONNECT_INITIAL_DELAY || '1000', 10),
+      maxDelay: parseInt(process.env.EVIQO_RECONNECT_MAX_DELAY || '300000', 10), // 5 minutes
+      maxAttempts: parseInt(process.env.EVIQO_RECONNECT_MAX_ATTEMPTS || '10', 10),
+    },
+    mappings: loadMappings(),
   };
 
-  // Validate required configuration
-  if (!config.eviqo.email || !config.eviqo.password) {
-    throw new Error('EVIQO_EMAIL and EVIQO_PASSWORD environment variables are required');
-  }
-
   return config;
 }
@@ -0,0 +1,183 @@
+/**
+ * Registry of published discovery configs
+ *
+ * Records which entity configs the gateway published for each Home
+ * Assistant device, and in which discovery mode, so removal clears exactly
+ * those configs instead of recomputing their topics from the current
+ * device page and mappings. With a file, the registry survives restarts,
+ * so configs published by an earlier run are removed too.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { logger } from 'eviqo-client-api';
+
+/**
+ * How discovery configs are published
+ *
+ * - `entity`: one retained config per entity, under `<prefix>/<platform>/<node>/<object>/config`
+ * - `device`: one retained config per device, under `<prefix>/device/<node>/config`
+ */
+export type DiscoveryMode = 'entity' | 'device';
+
+/**
+ * An entity config published for a device
+ */
+export interface PublishedComponent {
+  /** Home Assistant platform (sensor, number, switch, ...) */
+  platform: string;
+  /** Object ID; the last topic level of an entity config, the component key of a device config */
+  objectId: string;
+}
+
+/**
+ * What was published for a device, as kept in the registry file
+ */
+interface PublishedNode {
+  mode?: DiscoveryMode;
+  components: PublishedComponent[];
+}
+
+/**
+ * Published entity configs keyed by device node ID (e.g. `eviqo_51627`)
+ */
+export class DiscoveryRegistry {
+  /** File the registry is kept in, or null to keep it in memory only */
+  readonly path: string | null;
+  private nodes: Map<string, { mode?: DiscoveryMode; components: Map<string, PublishedComponent> }> =
+    new Map();
+
+  constructor(path: string | null = null) {
+    this.path = path;
+    if (path) {
+      this.load(path);
+    }
+  }
+
+  /**
+   * Record a published entity config
+   */
+  record(nodeId: string, component: PublishedComponent): void {
+    this.node(nodeId).components.set(componentKey(component), { ...component });
+    this.save();
+  }
+
+  /**
+   * Forget an entity config that was cleared
+   */
+  forget(nodeId: string, component: PublishedComponent): void {
+    if (this.nodes.get(nodeId)?.components.delete(componentKey(component))) {
+      this.save();
+    }
+  }
+
+  /**
+   * Entity configs published for a device
+   */
+  components(nodeId: string): PublishedComponent[] {
+    return [...(this.nodes.get(nodeId)?.components.values() ?? [])];
+  }
+
+  /**
+   * Discovery mode a device was last published in
+   */
+  getMode(nodeId: string): DiscoveryMode | undefined {
+    return this.nodes.get(nodeId)?.mode;
+  }
+
+  /**
+   * Set the discovery mode a device was published in
+   */
+  setMode(nodeId: string, mode: DiscoveryMode): void {
+    this.node(nodeId).mode = mode;
+    this.save();
+  }
+
+  /**
+   * Whether anything was published for a device
+   */
+  has(nodeId: string): boolean {
+    return this.nodes.has(nodeId);
+  }
+
+  /**
+   * Forget everything published for a device
+   */
+  clear(nodeId: string): void {
+    if (this.nodes.delete(nodeId)) {
+      this.save();
+    }
+  }
+
+  /**
+   * Node IDs of devices with published configs
+   */
+  nodeIds(): string[] {
+    return [...this.nodes.keys()];
+  }
+
+  private node(nodeId: string) {
+    let node = this.nodes.get(nodeId);
+    if (!node) {
+      node = { components: new Map() };
+      this.nodes.set(nodeId, node);
+    }
+    return node;
+  }
+
+  /**
+   * Read the registry file; a missing or unreadable file starts empty
+   */
+  private load(path: string): void {
+    let text: string;
+    try {
+      text = readFileSync(path, 'utf-8');
+    } catch {
+      return;
+    }
+
+    let data: Record<string, PublishedNode>;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      logger.warn(`Ignoring unreadable discovery registry ${path}`);
+      return;
+    }
+
+    for (const [nodeId, node] of Object.entries(data ?? {})) {
+      if (!Array.isArray(node?.components)) {
+        continue;
+      }
+      const components = new Map<string, PublishedComponent>();
+      for (const { platform, objectId } of node.components) {
+        if (typeof platform === 'string' && typeof objectId === 'string') {
+          components.set(componentKey({ platform, objectId }), { platform, objectId });
+        }
+      }
+      const mode = node.mode === 'entity' || node.mode === 'device' ? node.mode : undefined;
+      this.nodes.set(nodeId, { mode, components });
+    }
+  }
+
+  /**
+   * Write the registry file, if there is one
+   */
+  private save(): void {
+    if (!this.path) {
+      return;
+    }
+
+    const data: Record<string, PublishedNode> = {};
+    for (const [nodeId, node] of this.nodes) {
+      data[nodeId] = { mode: node.mode, components: [...node.components.values()] };
+    }
+    try {
+      writeFileSync(this.path, JSON.stringify(data, null, 2));
+    } catch (err) {
+      logger.warn(`Failed to save discovery registry ${this.path}: ${(err as Error).message}`);
+    }
+  }
+}
+
+function componentKey(component: PublishedComponent): string {
+  return `${component.platform}/${component.objectId}`;
+}
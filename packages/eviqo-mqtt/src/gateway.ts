@@ -8,21 +8,46 @@ import { EventEmitter } from 'events';
 import * as mqtt from 'mqtt';
 import {
   EviqoWebsocketConnection,
-  WS_URL,
+  EviqoCharger,
+  ChargerStateError,
+  ChargerStatus,
+  CHARGER_CURRENT_PIN,
+  chargerStatusLabel,
   logger,
   LogLevel,
   WidgetUpdate,
   EviqoDevicePageModel,
-  DeviceDocs,
+  ReconnectedEvent,
+  DeviceChangedEvent,
+  DisplayDataStream,
+  AccountInfo,
+  ValidationError,
+  pageDatastreams,
+  isOnOffDatastream,
+  SessionStore,
+  FileSessionStore,
+  MemorySessionStore,
 } from 'eviqo-client-api';
 import { GatewayConfig } from './config';
 import {
   publishDeviceDiscovery,
+  publishDiscoveryChanges,
   removeDeviceDiscovery,
-  CONTROLLABLE_WIDGETS,
-  WIDGET_MAPPINGS,
+  publishAccountInfo,
+  removeAccountInfo,
   getTopicId,
+  removeRecordedDiscovery,
+  DiscoveryOptions,
 } from './ha-discovery';
+import { DiscoveryRegistry } from './discovery-registry';
+import { DeviceMappings, EntityMappings, getSensorMapping } from './mappings';
+import {
+  isWritableEntity,
+  resolveStreamEntity,
+  selectOption,
+  selectValue,
+  StreamEntity,
+} from './inference';
 
 /**
  * Session entity names - these are only updated during charging
@@ -34,17 +59,30 @@ const SESSION_ENTITIES = new Set(['Session duration', 'Session power', 'Session
  * Maps widget name to a function that transforms the raw value
  */
 const VALUE_TRANSFORMERS: Record<string, (value: string) => string> = {
-  Status: (value: string) => {
-    const stateMap: Record<string, string> = {
-      '0': 'unplugged',
-      '1': 'plugged',
-      '2': 'charging',
-      '3': 'stopped',
-    };
-    return stateMap[value] || value;
-  },
+  Status: (value: string) => chargerStatusLabel(value),
 };
 
+/**
+ * Pin commands for a widget are written to, or undefined if it is read-only
+ *
+ * Controls use their configured pin; number, select and switch entities
+ * of writable datastreams (module on/off datastreams included) write to
+ * the datastream's own pin.
+ */
+function commandPin(
+  mappings: DeviceMappings,
+  stream: DisplayDataStream,
+  onOff = false
+): string | undefined {
+  const controlSettings = mappings.controls[stream.name];
+  if (controlSettings) {
+    return controlSettings.pin;
+  }
+  return isWritableEntity(resolveStreamEntity(mappings, stream, onOff))
+    ? String(stream.pin)
+    : undefined;
+}
+
 /**
  * Gateway state
  */
@@ -57,18 +95,20 @@ export class EviqoMqttGateway extends EventEmitter {
   private config: GatewayConfig;
   private mqttClient: mqtt.MqttClient | null = null;
   private eviqoClient: EviqoWebsocketConnection | null = null;
-  private devices: DeviceDocs[] = [];
   private devicePages: Map<number, EviqoDevicePageModel> = new Map();
   private state: GatewayState = 'disconnected';
   private reconnectTimer: NodeJS.Timeout | null = null;
+  private healthCheckTimer: NodeJS.Timeout | null = null;
   private shutdownRequested = false;
-  // Map command topics to device/pin info for handling MQTT commands
-  private commandTopicMap: Map<string, { deviceId: string; pin: string }> =
+  // Map command topics to device/pin/widget info for handling MQTT commands
+  private commandTopicMap: Map<string, { deviceId: string; pin: string; widget: string }> =
     new Map();
-  // Reverse map from deviceId:pin to state topic for updating state after commands
-  private pinToStateTopicMap: Map<string, string> = new Map();
+  // Reverse map from deviceId:pin to state topic and widget for updating state after commands
+  private pinToStateTopicMap: Map<string, { topic: string; widget: string }> = new Map();
   // Track current status per device (0=unplugged, 1=plugged, 2=charging, 3=stopped)
   private deviceStatus: Map<string, string> = new Map();
+  // High-level charger control per device ID
+  private chargers: Map<string, EviqoCharger> = new Map();
   // Map charging command topics to device IDs
   private chargingCommandTopicMap: Map<string, string> = new Map();
   // Track pending charging state per device for optimistic updates
@@ -78,10 +118,25 @@ export class EviqoMqttGateway extends EventEmitter {
   private static readonly PENDING_STATE_TIMEOUT = 5000;
   // Track when the Eviqo websocket connection was established (for periodic reconnection)
   private lastEviqoConnectTime: number = 0;
+  // Cloud server version last published
+  private serverVersion: string | null = null;
+  // Shared by every Eviqo client so a fresh client resumes the previous session
+  private sessionStore: SessionStore;
+  private mappings: EntityMappings;
+  // Discovery mode and the configs published for each device
+  private discovery: DiscoveryOptions;
 
   constructor(config: GatewayConfig) {
     super();
     this.config = config;
+    this.sessionStore = config.eviqo.sessionFile
+      ? new FileSessionStore(config.eviqo.sessionFile)
+      : new MemorySessionStore();
+    this.mappings = new EntityMappings(config.mappings);
+    this.discovery = {
+      mode: config.discoveryMode,
+      registry: new DiscoveryRegistry(config.discoveryFile ?? null),
+    };
 
     // Set log level
     const logLevelMap: Record<string, LogLevel> = {
@@ -117,8 +172,8 @@ export class EviqoMqttGateway extends EventEmitter {
       this.setState('connected');
       logger.info('Gateway started successfully');
 
-      // Start monitoring loop
-      this.monitorLoop();
+      // Start connection health checks
+      this.startHealthCheck();
     } catch (error) {
       logger.error(`Failed to start gateway: ${error}`);
       this.setState('error');
@@ -137,6 +192,7 @@ export class EviqoMqttGateway extends EventEmitter {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
+    this.stopHealthCheck();
 
     // Publish offline status for all devices
     if (this.mqttClient && this.mqttClient.connected) {
@@ -155,8 +211,12 @@ export class EviqoMqttGateway extends EventEmitter {
       this.mqttClient = null;
     }
 
-    // The Eviqo client will close when the connection ends
-    this.eviqoClient = null;
+    this.chargers.clear();
+    if (this.eviqoClient) {
+      this.eviqoClient.removeAllListeners();
+      this.eviqoClient.disconnect();
+      this.eviqoClient = null;
+    }
 
     this.setState('disconnected');
     logger.info('Gateway stopped');
@@ -225,16 +285,30 @@ export class EviqoMqttGateway extends EventEmitter {
     // Track connection time for periodic reconnection
     this.lastEviqoConnectTime = Date.now();
 
-    // Remove old event listeners if reconnecting
+    // Remove old event listeners and close the old socket if reconnecting
+    this.chargers.clear();
     if (this.eviqoClient) {
       this.eviqoClient.removeAllListeners();
+      this.eviqoClient.disconnect();
     }
 
+    const eviqo = this.config.eviqo;
     this.eviqoClient = new EviqoWebsocketConnection(
-      WS_URL,
+      eviqo.wsUrl,
+      null,
+      null,
       null,
-      this.config.eviqo.email,
-      this.config.eviqo.password
+      {
+        credentials: eviqo.credentials,
+        loginUrl: eviqo.loginUrl,
+        origin: eviqo.origin,
+        userAgent: eviqo.userAgent,
+        clientVersion: eviqo.clientVersion,
+        locale: eviqo.locale,
+        reconnect: this.config.reconnect,
+        pageRefreshInterval: this.config.pageRefreshInterval,
+        sessionStore: this.sessionStore,
+      }
     );
 
     // Set up widget update handler
@@ -242,20 +316,58 @@ export class EviqoMqttGateway extends EventEmitter {
       this.handleWidgetUpdate(update);
     });
 
-    // Set up command sent handler to update state immediately
-    this.eviqoClient.on('commandSent', (command: { deviceId: string; pin: string; value: string }) => {
-      this.handleCommandSent(command);
+    // Publish the new value once the command has been confirmed
+    this.eviqoClient.on('commandConfirmed', (command) => {
+      this.handleCommandConfirmed(command);
     });
 
     // Set up connection monitoring handlers
-    this.eviqoClient.on('connectionClosed', (info: { code: number; reason: string }) => {
+    // The client reconnects on its own; these only track gateway state
+    this.eviqoClient.on('connectionClosed', (info) => {
       if (!this.shutdownRequested) {
         logger.warn(`Eviqo websocket closed unexpectedly: code=${info.code} reason=${info.reason}`);
-        this.scheduleReconnect();
       }
     });
 
-    this.eviqoClient.on('connectionError', (error: Error) => {
+    this.eviqoClient.on('reconnecting', () => {
+      if (!this.shutdownRequested) {
+        this.setState('connecting');
+      }
+    });
+
+    this.eviqoClient.on('reconnected', (event) => {
+      this.handleReconnected(event).catch((error) => {
+        logger.error(`Failed to reinitialize devices after reconnect: ${error}`);
+      });
+    });
+
+    // Devices removed from the account while disconnected
+    this.eviqoClient.on('deviceRemoved', ({ deviceId }) => {
+      this.handleDeviceRemoved(deviceId).catch((error) => {
+        logger.error(`Failed to remove device ${deviceId}: ${error}`);
+      });
+    });
+
+    // Device page changed on refresh - republish what changed
+    this.eviqoClient.on('deviceChanged', (event) => {
+      this.handleDeviceChanged(event).catch((error) => {
+        logger.error(`Failed to update device ${event.diff.deviceId}: ${error}`);
+      });
+    });
+
+    // Account information from login - publish it as diagnostics
+    this.eviqoClient.on('accountUpdated', ({ account }) => {
+      this.handleAccountUpdated(account).catch((error) => {
+        logger.error(`Failed to publish account information: ${error}`);
+      });
+    });
+
+    // Client gave up - start over with a fresh client
+    this.eviqoClient.on('reconnectFailed', () => {
+      this.scheduleReconnect();
+    });
+
+    this.eviqoClient.on('connectionError', (error) => {
       if (!this.shutdownRequested) {
         logger.error(`Eviqo websocket error: ${error.message}`);
       }
@@ -269,89 +381,215 @@ export class EviqoMqttGateway extends EventEmitter {
     // Initialize, login, and query devices
     await (this.eviqoClient as EviqoWebsocketConnectionInternal).issueInitialization();
     await this.eviqoClient.login();
-    await this.eviqoClient.queryDevices();
+    // Fetch pages and widget mappings for every device
+    const devicePages = await this.eviqoClient.subscribeAll();
 
-    this.devices = this.eviqoClient.getDevices();
-
-    if (this.devices.length === 0) {
+    if (devicePages.length === 0) {
       throw new Error('No devices found in Eviqo account');
     }
 
-    logger.info(`Found ${this.devices.length} device(s)`);
+    logger.info(`Found ${devicePages.length} device(s)`);
 
-    // Request status for each device
-    for (const device of this.devices) {
-      if (device.deviceId === undefined) continue;
+    for (const devicePage of devicePages) {
+      this.devicePages.set(devicePage.id, devicePage);
+      await this.initializeDevice(devicePage);
+    }
 
-      const devicePage = await this.eviqoClient.requestChargingStatus(device.deviceId);
-      this.devicePages.set(device.deviceId, devicePage);
+    await this.removeStaleDiscovery();
+  }
 
-      // Extract widget mappings
-      const deviceIdx = this.devices.indexOf(device);
-      this.eviqoClient.extractWidgetMappings(deviceIdx, devicePage);
+  /**
+   * Remove discovery recorded for devices that are no longer on the account
+   * (e.g. removed while the gateway was not running)
+   */
+  private async removeStaleDiscovery(): Promise<void> {
+    const registry = this.discovery.registry;
+    if (!registry || !this.mqttClient?.connected) return;
+
+    const current = new Set([...this.devicePages.keys()].map((id) => `eviqo_${id}`));
+    for (const nodeId of registry.nodeIds()) {
+      if (!current.has(nodeId)) {
+        logger.info(`Removing discovery of ${nodeId}, no longer on the account`);
+        await removeRecordedDiscovery(this.mqttClient, this.config.discoveryPrefix, nodeId, registry);
+      }
+    }
+  }
+
+  /**
+   * Publish discovery, availability and initial values for a device and
+   * subscribe to its command topics
+   */
+  private async initializeDevice(devicePage: EviqoDevicePageModel): Promise<void> {
+    // Bind charger control to the current client
+    const deviceId = String(devicePage.id);
+    this.chargers.set(deviceId, new EviqoCharger(this.eviqoClient!, deviceId));
+
+    // Publish Home Assistant discovery
+    if (this.mqttClient) {
+      await publishDeviceDiscovery(
+        this.mqttClient,
+        this.config.discoveryPrefix,
+        this.config.topicPrefix,
+        devicePage,
+        this.mappingsFor(devicePage.id),
+        this.discovery
+      );
+    }
+
+    // Publish device online status
+    await this.publishDeviceOnline(devicePage);
+
+    // Publish initial widget values
+    await this.publishInitialWidgetValues(devicePage);
+
+    // Subscribe to command topics for controllable widgets
+    await this.subscribeToCommandTopics(devicePage);
+
+    logger.info(`Device "${devicePage.name}" (ID: ${devicePage.id}) initialized`);
+  }
+
+  /**
+   * Refresh device state after the Eviqo client re-established its session
+   */
+  private async handleReconnected(event: ReconnectedEvent): Promise<void> {
+    if (this.shutdownRequested) return;
+
+    this.lastEviqoConnectTime = Date.now();
+    this.devicePages.clear();
+
+    for (const devicePage of event.devicePages) {
+      this.devicePages.set(devicePage.id, devicePage);
+      await this.initializeDevice(devicePage);
+    }
+
+    this.setState('connected');
+    logger.info('Eviqo connection re-established');
+  }
 
-      // Publish Home Assistant discovery
-      if (this.mqttClient) {
-        await publishDeviceDiscovery(
-          this.mqttClient,
-          this.config.discoveryPrefix,
-          this.config.topicPrefix,
-          devicePage
-        );
+  /**
+   * Remove discovery and command topics of a device that left the account
+   */
+  private async handleDeviceRemoved(deviceId: string): Promise<void> {
+    const devicePage = this.devicePages.get(Number(deviceId));
+    this.devicePages.delete(Number(deviceId));
+    this.chargers.delete(deviceId);
+    this.deviceStatus.delete(deviceId);
+    this.pendingChargingState.delete(deviceId);
+
+    for (const [topic, info] of this.commandTopicMap) {
+      if (info.deviceId === deviceId) {
+        this.commandTopicMap.delete(topic);
+        this.mqttClient?.unsubscribe(topic);
+      }
+    }
+    for (const [topic, id] of this.chargingCommandTopicMap) {
+      if (id === deviceId) {
+        this.chargingCommandTopicMap.delete(topic);
+        this.mqttClient?.unsubscribe(topic);
+      }
+    }
+    for (const pinKey of this.pinToStateTopicMap.keys()) {
+      if (pinKey.startsWith(`${deviceId}:`)) {
+        this.pinToStateTopicMap.delete(pinKey);
       }
+    }
+
+    if (devicePage && this.mqttClient?.connected) {
+      await this.publishDeviceOffline(devicePage);
+      await removeDeviceDiscovery(
+        this.mqttClient,
+        this.config.discoveryPrefix,
+        devicePage,
+        this.mappings.forDevice(deviceId, devicePage.name),
+        this.discovery
+      );
+    }
+    logger.info(`Device ${deviceId} removed`);
+  }
+
+  /**
+   * Republish discovery, command topics and values for what changed on a
+   * refreshed device page
+   */
+  private async handleDeviceChanged({ diff, devicePage }: DeviceChangedEvent): Promise<void> {
+    this.devicePages.set(devicePage.id, devicePage);
+    const mappings = this.mappingsFor(devicePage.id);
 
-      // Publish device online status
-      await this.publishDeviceOnline(devicePage);
+    if (this.mqttClient?.connected) {
+      await publishDiscoveryChanges(
+        this.mqttClient,
+        this.config.discoveryPrefix,
+        this.config.topicPrefix,
+        devicePage,
+        diff,
+        mappings,
+        this.discovery
+      );
+    }
 
-      // Publish initial widget values
-      await this.publishInitialWidgetValues(devicePage);
+    // Drop command topics of controllable widgets that went away
+    const remaining = new Set(diff.changedStreams.map((change) => change.after.name));
+    const gone = [...diff.removedStreams, ...diff.changedStreams.map((change) => change.before)]
+      .filter((stream) => !remaining.has(stream.name));
+    for (const stream of gone) {
+      const pin = mappings.controls[stream.name]?.pin ?? String(stream.pin);
+      for (const [topic, info] of this.commandTopicMap) {
+        if (info.deviceId === diff.deviceId && info.pin === pin) {
+          this.commandTopicMap.delete(topic);
+          this.mqttClient?.unsubscribe(topic);
+        }
+      }
+      this.pinToStateTopicMap.delete(`${diff.deviceId}:${pin}`);
+    }
 
-      // Subscribe to command topics for controllable widgets
+    const added = [...diff.addedStreams, ...diff.changedStreams.map((change) => change.after)];
+    const onOff = (stream: DisplayDataStream) => isOnOffDatastream(devicePage, stream.pin);
+    if (added.some((stream) => commandPin(mappings, stream, onOff(stream)))) {
       await this.subscribeToCommandTopics(devicePage);
-
-      logger.info(`Device "${devicePage.name}" (ID: ${devicePage.id}) initialized`);
     }
+    for (const stream of added) {
+      this.publishWidgetValue(devicePage.id, stream.name, stream.visualization.value || '0', true);
+    }
+
+    logger.info(`Device "${devicePage.name}" (ID: ${devicePage.id}) updated`);
   }
 
   /**
-   * Subscribe to command topics for controllable widgets and switches
+   * Subscribe to command topics for controllable widgets, on/off datastreams and switches
    */
   private async subscribeToCommandTopics(
     device: EviqoDevicePageModel
   ): Promise<void> {
     if (!this.mqttClient || !this.mqttClient.connected) return;
 
-    const dashboard = device.dashboard;
-
-    for (const widget of dashboard.widgets) {
-      for (const module of widget.modules) {
-        for (const stream of module.displayDataStreams) {
-          const controlSettings = CONTROLLABLE_WIDGETS[stream.name];
-          if (controlSettings) {
-            const entityId = controlSettings.topic_id;
-            const commandTopic = `${this.config.topicPrefix}/${device.id}/${entityId}/set`;
-            const stateTopic = `${this.config.topicPrefix}/${device.id}/${entityId}/state`;
-
-            // Store mapping for handling commands
-            this.commandTopicMap.set(commandTopic, {
-              deviceId: String(device.id),
-              pin: controlSettings.pin,
-            });
-
-            // Store reverse mapping for updating state after command sent
-            const pinKey = `${device.id}:${controlSettings.pin}`;
-            this.pinToStateTopicMap.set(pinKey, stateTopic);
-
-            // Subscribe to the command topic
-            this.mqttClient.subscribe(commandTopic, (err) => {
-              if (err) {
-                logger.error(`Failed to subscribe to ${commandTopic}: ${err}`);
-              } else {
-                logger.info(`Subscribed to command topic: ${commandTopic}`);
-              }
-            });
+    const mappings = this.mappingsFor(device.id);
+
+    for (const stream of pageDatastreams(device)) {
+      const pin = commandPin(mappings, stream, isOnOffDatastream(device, stream.pin));
+      if (pin) {
+        const entityId = mappings.controls[stream.name]?.topic_id || getTopicId(stream.name, mappings);
+        const commandTopic = `${this.config.topicPrefix}/${device.id}/${entityId}/set`;
+        const stateTopic = `${this.config.topicPrefix}/${device.id}/${entityId}/state`;
+
+        // Store mapping for handling commands
+        this.commandTopicMap.set(commandTopic, {
+          deviceId: String(device.id),
+          pin,
+          widget: stream.name,
+        });
+
+        // Store reverse mapping for updating state after command sent
+        const pinKey = `${device.id}:${pin}`;
+        this.pinToStateTopicMap.set(pinKey, { topic: stateTopic, widget: stream.name });
+
+        // Subscribe to the command topic
+        this.mqttClient.subscribe(commandTopic, (err) => {
+          if (err) {
+            logger.error(`Failed to subscribe to ${commandTopic}: ${err}`);
+          } else {
+            logger.info(`Subscribed to command topic: ${commandTopic}`);
           }
-        }
+        });
       }
     }
 
@@ -368,41 +606,52 @@ export class EviqoMqttGateway extends EventEmitter {
   }
 
   /**
-   * Main monitoring loop
+   * Start periodic connection health checks
+   *
+   * Widget updates arrive as events from the Eviqo client, so this only
+   * watches for a dead websocket and for the periodic reconnection interval.
    */
-  private async monitorLoop(): Promise<void> {
-    while (!this.shutdownRequested && this.eviqoClient) {
-      try {
-        // Check if websocket is still connected
-        if (!this.eviqoClient.isConnected()) {
-          logger.warn('Eviqo websocket is no longer connected');
-          if (!this.shutdownRequested) {
-            this.scheduleReconnect();
-          }
-          break;
-        }
+  private startHealthCheck(): void {
+    this.stopHealthCheck();
+    this.healthCheckTimer = setInterval(() => {
+      this.checkConnection();
+    }, this.config.pollInterval);
+  }
 
-        // Check if periodic reconnection is needed (to prevent auth timeout)
-        if (this.shouldReconnect()) {
-          logger.info('Periodic websocket reconnection triggered to prevent auth timeout');
-          this.scheduleReconnect(0); // Reconnect immediately
-          break;
-        }
+  /**
+   * Stop periodic connection health checks
+   */
+  private stopHealthCheck(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+
+  /**
+   * Check the Eviqo connection and reconnect if needed
+   */
+  private checkConnection(): void {
+    if (this.shutdownRequested || !this.eviqoClient) return;
 
-        // Send keepalive
-        await this.eviqoClient.keepalive();
+    // The client is already working on it
+    if (this.eviqoClient.isReconnecting()) return;
 
-        // Listen for updates
-        await this.eviqoClient.listen(this.config.pollInterval / 1000);
-      } catch (error) {
-        logger.error(`Monitor loop error: ${error}`);
+    // Check if websocket is still connected
+    if (!this.eviqoClient.isConnected()) {
+      logger.warn('Eviqo websocket is no longer connected');
+      this.scheduleReconnect();
+      return;
+    }
 
-        if (!this.shutdownRequested) {
-          // Schedule reconnection
-          this.scheduleReconnect();
-          break;
-        }
-      }
+    // Check if periodic reconnection is needed (to prevent auth timeout)
+    if (this.shouldReconnect()) {
+      logger.info('Periodic websocket reconnection triggered to prevent auth timeout');
+      this.lastEviqoConnectTime = Date.now();
+      this.setState('connecting');
+      this.eviqoClient.reconnect().catch((error) => {
+        logger.warn(`Periodic reconnection failed: ${error}`);
+      });
     }
   }
 
@@ -417,12 +666,20 @@ export class EviqoMqttGateway extends EventEmitter {
   }
 
   /**
-   * Schedule a reconnection attempt
+   * Schedule a reconnection attempt with a fresh Eviqo client
+   *
+   * Used when the initial connection fails or the client's own reconnect
+   * policy gives up.
    * @param delay - Delay in ms before reconnecting (default: 30000ms)
    */
   private scheduleReconnect(delay = 30000): void {
     if (this.shutdownRequested) return;
 
+    // A reconnection is already scheduled
+    if (this.reconnectTimer) return;
+
+    this.stopHealthCheck();
+
     if (delay > 0) {
       logger.info(`Scheduling reconnection in ${delay / 1000} seconds...`);
     } else {
@@ -431,10 +688,11 @@ export class EviqoMqttGateway extends EventEmitter {
     this.setState('connecting');
 
     this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
       try {
         await this.connectEviqo();
         this.setState('connected');
-        this.monitorLoop();
+        this.startHealthCheck();
       } catch (error) {
         logger.error(`Reconnection failed: ${error}`);
         this.scheduleReconnect();
@@ -442,11 +700,34 @@ export class EviqoMqttGateway extends EventEmitter {
     }, delay);
   }
 
+  /**
+   * Entity mappings of a device, with the overrides for its ID and name applied
+   */
+  private mappingsFor(deviceId: string | number): DeviceMappings {
+    return this.mappings.forDevice(deviceId, this.devicePages.get(Number(deviceId))?.name);
+  }
+
+  /**
+   * Entity a widget of a device is published as, or undefined if it is not published
+   */
+  private streamEntity(deviceId: string | number, widgetName: string): StreamEntity | undefined {
+    const device = this.devicePages.get(Number(deviceId));
+    const stream = device && pageDatastreams(device).find((s) => s.name === widgetName);
+    if (!device || !stream) {
+      return undefined;
+    }
+    return resolveStreamEntity(
+      this.mappingsFor(deviceId),
+      stream,
+      isOnOffDatastream(device, stream.pin)
+    );
+  }
+
   /**
    * Publish a widget value to MQTT
    *
    * Handles topic construction, value transformation, and retain logic.
-   * Publishes values for widgets in WIDGET_MAPPINGS (sensors) or CONTROLLABLE_WIDGETS (number entities).
+   * Publishes values for widgets mapped to sensors or number entities in the device's mappings.
    * @param retain - Whether to retain the message (defaults to false for updates, true for initial values)
    */
   private publishWidgetValue(
@@ -457,12 +738,13 @@ export class EviqoMqttGateway extends EventEmitter {
   ): void {
     if (!this.mqttClient || !this.mqttClient.connected) return;
 
-    // Check if this widget is a sensor (in WIDGET_MAPPINGS) or controllable (in CONTROLLABLE_WIDGETS)
-    const isInWidgetMappings = widgetName in WIDGET_MAPPINGS;
-    const controlSettings = CONTROLLABLE_WIDGETS[widgetName];
+    // Check if this widget is a sensor or controllable (number entity)
+    const mappings = this.mappingsFor(deviceId);
+    const sensorMapping = getSensorMapping(mappings, widgetName);
+    const controlSettings = mappings.controls[widgetName];
 
     // Only publish widgets that have a mapping defined
-    if (!isInWidgetMappings && !controlSettings) return;
+    if (!sensorMapping && !controlSettings) return;
 
     // Session entities are only updated during charging
     if (SESSION_ENTITIES.has(widgetName)) {
@@ -473,12 +755,15 @@ export class EviqoMqttGateway extends EventEmitter {
       }
     }
 
-    // Apply value transformer if one exists for this widget
+    // Apply value transformer if one exists for this widget; select
+    // entities publish the option of the value
     const transformer = VALUE_TRANSFORMERS[widgetName];
-    const publishValue = transformer ? transformer(rawValue) : rawValue;
+    const publishValue = transformer
+      ? transformer(rawValue)
+      : selectOption(this.streamEntity(deviceId, widgetName), rawValue);
 
-    // Use topic_id from CONTROLLABLE_WIDGETS if available, otherwise use getTopicId
-    const sensorId = controlSettings?.topic_id || getTopicId(widgetName);
+    // Use topic_id of the control if available, otherwise use getTopicId
+    const sensorId = controlSettings?.topic_id || getTopicId(widgetName, mappings);
     const topic = `${this.config.topicPrefix}/${deviceId}/${sensorId}/state`;
 
     logger.debug(`Publishing: ${topic} = ${publishValue} (retain=${retain})`);
@@ -558,92 +843,85 @@ export class EviqoMqttGateway extends EventEmitter {
       return;
     }
 
-    const { deviceId, pin } = commandInfo;
-    const value = message.trim();
+    const { deviceId, pin, widget } = commandInfo;
+    // Select entities send the option; write the value it stands for
+    const value = selectValue(this.streamEntity(deviceId, widget), message.trim());
+    if (value === undefined) {
+      logger.warn(`Rejected command on ${topic}: unknown option "${message.trim()}"`);
+      return;
+    }
 
     logger.info(
       `Sending command: device=${deviceId} pin=${pin} value=${value}`
     );
 
     try {
-      await this.eviqoClient.sendCommand(deviceId, pin, value);
-      logger.info(`Command sent successfully`);
+      // The current limit is validated against the charger's Current max,
+      // other values against the bounds of their datastream
+      const charger = this.chargers.get(deviceId);
+      const confirmed =
+        charger && pin === CHARGER_CURRENT_PIN
+          ? await charger.setCurrentLimit(Number(value))
+          : await this.eviqoClient.writeValue(deviceId, Number(pin), value);
+      logger.info(`Command confirmed by ${confirmed.confirmedBy}`);
     } catch (error) {
-      logger.error(`Failed to send command: ${error}`);
+      if (error instanceof ValidationError) {
+        logger.warn(`Rejected command on ${topic}: ${error.message}`);
+      } else {
+        logger.error(`Failed to send command: ${error}`);
+      }
     }
   }
 
   /**
    * Handle charging switch command (ON/OFF)
    *
-   * Command sequences based on current status (with 25ms delays between commands):
-   * - To STOP (status=2 charging): send 2, then 0
-   * - To START (status=1 plugged): send 1, then 0
-   * - To START (status=3 stopped): send 3, then 0, then 1, then 0
+   * The control sequences depend on the current status and are sent by
+   * EviqoCharger (see eviqo-client-api).
    *
-   * Uses optimistic state updates - immediately publishes desired state and blocks
+   * Uses optimistic state updates - publishes the desired state as soon as the
+   * sequence is sent, without waiting for its writes to be confirmed, and blocks
    * real state updates until the desired state is reached or timeout expires.
+   * Commands the charger's status does not allow are logged as warnings.
    */
   private async handleChargingCommand(deviceId: string, command: string): Promise<void> {
-    const currentStatus = this.deviceStatus.get(deviceId);
-    const chargingPin = '15'; // Pin for charging control
-    const delay = () => new Promise(resolve => setTimeout(resolve, 25));
+    const charger = this.chargers.get(deviceId);
+    if (!charger) {
+      logger.warn(`No charger for device ${deviceId}`);
+      return;
+    }
 
-    logger.info(`Charging command: ${command} for device ${deviceId} (current status: ${currentStatus})`);
+    logger.info(`Charging command: ${command} for device ${deviceId} (current status: ${charger.getStatus()})`);
 
+    const status = charger.getStatus();
     try {
       if (command === 'OFF') {
-        // Stop charging - only valid if currently charging (status=2)
-        if (currentStatus !== '2') {
-          logger.warn(`Cannot stop charging: device ${deviceId} is not charging (status=${currentStatus})`);
-          return;
+        // Set optimistic state before the writes are confirmed
+        if (status === ChargerStatus.CHARGING) {
+          this.setOptimisticChargingState(deviceId, 'OFF');
+        }
+        if (await charger.stopCharging()) {
+          logger.info(`Charging stopped for device ${deviceId}`);
         }
-        await this.eviqoClient!.sendCommand(deviceId, chargingPin, '2');
-        await delay();
-        await this.eviqoClient!.sendCommand(deviceId, chargingPin, '0');
-        // Set optimistic state
-        this.setOptimisticChargingState(deviceId, 'OFF');
-        logger.info(`Charging stopped for device ${deviceId}`);
       } else if (command === 'ON') {
-        // Start charging - depends on current status
-        if (currentStatus === '0') {
-          logger.warn(`Cannot start charging: device ${deviceId} is unplugged`);
-          return;
-        } else if (currentStatus === '2') {
-          logger.info(`Device ${deviceId} is already charging`);
-          return;
-        } else if (currentStatus === '1') {
-          // Plugged - send start command
-          await this.eviqoClient!.sendCommand(deviceId, chargingPin, '1');
-          await delay();
-          await this.eviqoClient!.sendCommand(deviceId, chargingPin, '0');
+        if (status === ChargerStatus.PLUGGED || status === ChargerStatus.STOPPED) {
           // Reset session entities to zero immediately
           this.resetSessionEntities(deviceId);
-          // Set optimistic state
+          // Set optimistic state before the writes are confirmed
           this.setOptimisticChargingState(deviceId, 'ON');
+        }
+        if (await charger.startCharging()) {
           logger.info(`Charging started for device ${deviceId}`);
-        } else if (currentStatus === '3') {
-          // Stopped - need to unlock then start
-          await this.eviqoClient!.sendCommand(deviceId, chargingPin, '3');
-          await delay();
-          await this.eviqoClient!.sendCommand(deviceId, chargingPin, '0');
-          await delay();
-          await this.eviqoClient!.sendCommand(deviceId, chargingPin, '1');
-          await delay();
-          await this.eviqoClient!.sendCommand(deviceId, chargingPin, '0');
-          // Reset session entities to zero immediately
-          this.resetSessionEntities(deviceId);
-          // Set optimistic state
-          this.setOptimisticChargingState(deviceId, 'ON');
-          logger.info(`Charging started for device ${deviceId} (from stopped state)`);
-        } else {
-          logger.warn(`Unknown status ${currentStatus} for device ${deviceId}`);
         }
       } else {
         logger.warn(`Unknown charging command: ${command}`);
       }
     } catch (error) {
-      logger.error(`Failed to send charging command: ${error}`);
+      if (error instanceof ChargerStateError) {
+        logger.warn(error.message);
+      } else {
+        logger.error(`Failed to send charging command: ${error}`);
+      }
     }
   }
 
@@ -663,8 +941,10 @@ export class EviqoMqttGateway extends EventEmitter {
       'Session cost': '0.00',
     };
 
+    const mappings = this.mappingsFor(deviceId);
     for (const sessionEntity of SESSION_ENTITIES) {
-      const sensorId = getTopicId(sessionEntity);
+      if (!getSensorMapping(mappings, sessionEntity)) continue;
+      const sensorId = getTopicId(sessionEntity, mappings);
       const sessionTopic = `${this.config.topicPrefix}/${deviceId}/${sensorId}/state`;
       const resetValue = resetValues[sessionEntity] || '0';
       this.mqttClient.publish(sessionTopic, resetValue, { retain: false });
@@ -691,21 +971,22 @@ export class EviqoMqttGateway extends EventEmitter {
   }
 
   /**
-   * Handle command sent event - update MQTT state immediately
+   * Handle command confirmed event - update MQTT state without waiting for the next update
    */
-  private handleCommandSent(command: { deviceId: string; pin: string; value: string }): void {
+  private handleCommandConfirmed(command: { deviceId: string; pin: string; value: string }): void {
     if (!this.mqttClient || !this.mqttClient.connected) return;
 
     const pinKey = `${command.deviceId}:${command.pin}`;
-    const stateTopic = this.pinToStateTopicMap.get(pinKey);
+    const state = this.pinToStateTopicMap.get(pinKey);
 
-    if (!stateTopic) {
+    if (!state) {
       logger.debug(`No state topic mapping for ${pinKey}`);
       return;
     }
 
-    logger.debug(`Updating state after command: ${stateTopic} = ${command.value}`);
-    this.mqttClient.publish(stateTopic, command.value, { retain: false });
+    const value = selectOption(this.streamEntity(command.deviceId, state.widget), command.value);
+    logger.debug(`Updating state after command: ${state.topic} = ${value}`);
+    this.mqttClient.publish(state.topic, value, { retain: false });
   }
 
   /**
@@ -713,16 +994,10 @@ export class EviqoMqttGateway extends EventEmitter {
    * Initial values are retained so HA can pick them up after a restart
    */
   private async publishInitialWidgetValues(device: EviqoDevicePageModel): Promise<void> {
-    const dashboard = device.dashboard;
-
-    for (const widget of dashboard.widgets) {
-      for (const module of widget.modules) {
-        for (const stream of module.displayDataStreams) {
-          const rawValue = stream.visualization.value || '0';
-          // Retain initial values so HA can see them after restart
-          this.publishWidgetValue(device.id, stream.name, rawValue, true);
-        }
-      }
+    for (const stream of pageDatastreams(device)) {
+      const rawValue = stream.visualization.value || '0';
+      // Retain initial values so HA can see them after restart
+      this.publishWidgetValue(device.id, stream.name, rawValue, true);
     }
   }
 
@@ -754,6 +1029,30 @@ export class EviqoMqttGateway extends EventEmitter {
     this.mqttClient.publish(connectivityTopic, 'OFF', { retain: true });
   }
 
+  /**
+   * Publish account information and log cloud backend upgrades
+   *
+   * The version is compared with the last one published, so upgrades are
+   * noticed across fresh clients too.
+   */
+  private async handleAccountUpdated(account: AccountInfo): Promise<void> {
+    if (!this.mqttClient) {
+      return;
+    }
+
+    if (this.serverVersion && account.serverVersion && this.serverVersion !== account.serverVersion) {
+      logger.info(`Eviqo cloud upgraded from ${this.serverVersion} to ${account.serverVersion}`);
+    }
+    this.serverVersion = account.serverVersion || this.serverVersion;
+
+    await publishAccountInfo(
+      this.mqttClient,
+      this.config.discoveryPrefix,
+      this.config.topicPrefix,
+      account
+    );
+  }
+
   /**
    * Remove Home Assistant discovery for all devices
    */
@@ -766,9 +1065,14 @@ export class EviqoMqttGateway extends EventEmitter {
       await removeDeviceDiscovery(
         this.mqttClient,
         this.config.discoveryPrefix,
-        devicePage
+        devicePage,
+        this.mappingsFor(devicePage.id),
+        this.discovery
       );
     }
+    await this.removeStaleDiscovery();
+
+    await removeAccountInfo(this.mqttClient, this.config.discoveryPrefix, this.config.topicPrefix);
 
     logger.info('Removed Home Assistant discovery configs');
   }
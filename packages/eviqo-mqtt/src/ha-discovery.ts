@@ -6,8 +6,21 @@
  */
 
 import type { MqttClient } from 'mqtt';
-import type { EviqoDevicePageModel, DisplayDataStream } from 'eviqo-client-api';
-import { logger } from 'eviqo-client-api';
+import type {
+  AccountInfo,
+  EviqoDevicePageModel,
+  DisplayDataStream,
+  DevicePageDiff,
+} from 'eviqo-client-api';
+import { isOnOffDatastream, logger, pageDatastreams } from 'eviqo-client-api';
+import {
+  ControlSettings,
+  DEFAULT_MAPPINGS,
+  DeviceMappings,
+  normalizeTopicName,
+} from './mappings';
+import { resolveStreamEntity, StreamEntity } from './inference';
+import { DiscoveryMode, DiscoveryRegistry, PublishedComponent } from './discovery-registry';
 
 export interface DeviceInfo {
   identifiers: string[];
@@ -34,6 +47,8 @@ export interface HaEntityConfig {
   value_template?: string;
   icon?: string;
   suggested_display_precision?: number;
+  entity_category?: string;
+  json_attributes_topic?: string;
   // Switch/button specific
   command_topic?: string;
   payload_on?: string;
@@ -43,72 +58,45 @@ export interface HaEntityConfig {
   max?: number;
   step?: number;
   mode?: string;
+  // Select specific
+  options?: string[];
 }
 
 /**
- * Widget mapping configuration
+ * Home Assistant device discovery config
+ *
+ * Holds every entity of a device as a component keyed by object ID. A
+ * component with only its platform removes that entity.
  */
-interface WidgetMapping {
-  device_class?: string;
-  unit?: string;
-  state_class?: string;
-  icon?: string;
-  topic_id?: string;  // Custom topic name (defaults to normalized widget name)
-  precision?: number; // Display precision (decimal places)
+export interface HaDeviceConfig {
+  device: DeviceInfo;
+  origin: {
+    name: string;
+    support_url?: string;
+  };
+  components: Record<string, Partial<Omit<HaEntityConfig, 'device'>> & { platform: string }>;
 }
 
 /**
- * Map widget names to Home Assistant device classes and units.
- * Only widgets listed here will be published to MQTT and HA discovery.
+ * Entity config and the topic it is published on
  */
-export const WIDGET_MAPPINGS: Record<string, WidgetMapping> = {
-  // Power and energy
-  'Charging Power': { device_class: 'power', unit: 'kW', state_class: 'measurement' },
-  'Power': { device_class: 'power', unit: 'kW', state_class: 'measurement' },
-  'Energy': { device_class: 'energy', unit: 'kWh', state_class: 'total_increasing' },
-  'Total Energy': { device_class: 'energy', unit: 'kWh', state_class: 'total_increasing' },
-  'Session Energy': { device_class: 'energy', unit: 'kWh', state_class: 'total_increasing' },
-
-  // Electrical
-  'Voltage': { device_class: 'voltage', unit: 'V', state_class: 'measurement', precision: 2 },
-  'Amperage': { device_class: 'current', unit: 'A', state_class: 'measurement', precision: 1 },
-  'Frequency': { device_class: 'frequency', unit: 'Hz', state_class: 'measurement' },
-
-  // Temperature
-  'Temperature': { device_class: 'temperature', unit: '°C', state_class: 'measurement' },
-  'Charger Temperature': { device_class: 'temperature', unit: '°C', state_class: 'measurement' },
-
-  // Session
-  'Session duration': { icon: 'mdi:timer' },
-  'Session power': { device_class: 'energy', unit: 'kWh', state_class: 'total_increasing' },
-  'Session cost': { icon: 'mdi:currency-usd' },
-
-  // Status
-  'Status': { icon: 'mdi:ev-station' },
-  'Charging Status': { icon: 'mdi:ev-station' },
-  'Connection Status': { icon: 'mdi:connection' },
-
-  // Battery/SoC
-  'State of Charge': { device_class: 'battery', unit: '%', state_class: 'measurement' },
-  'SoC': { device_class: 'battery', unit: '%', state_class: 'measurement' },
-  'Battery': { device_class: 'battery', unit: '%', state_class: 'measurement' },
-};
+export type EntityConfig = { topic: string; payload: HaEntityConfig };
 
 /**
- * Normalize widget name for MQTT topic (lowercase, underscores)
+ * Options for publishing and removing discovery configs
  */
-function normalizeTopicName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '_')
-    .replace(/^_|_$/g, '');
+export interface DiscoveryOptions {
+  /** Discovery mode (default: entity) */
+  mode?: DiscoveryMode;
+  /** Records what was published, so removal clears exactly those configs */
+  registry?: DiscoveryRegistry;
 }
 
 /**
  * Get the topic ID for a widget (custom or normalized name)
  */
-export function getTopicId(widgetName: string): string {
-  const mapping = WIDGET_MAPPINGS[widgetName];
+export function getTopicId(widgetName: string, mappings: DeviceMappings = DEFAULT_MAPPINGS): string {
+  const mapping = mappings.widgets[widgetName];
   return mapping?.topic_id || normalizeTopicName(widgetName);
 }
 
@@ -134,15 +122,41 @@ export function createSensorConfig(
   discoveryPrefix: string,
   topicPrefix: string,
   device: EviqoDevicePageModel,
-  stream: DisplayDataStream
+  stream: DisplayDataStream,
+  mappings: DeviceMappings = DEFAULT_MAPPINGS
+): { topic: string; payload: HaEntityConfig } {
+  const onOff = isOnOffDatastream(device, stream.pin);
+  const mapping = resolveStreamEntity(mappings, stream, onOff)?.mapping || {};
+  return createStreamEntityConfig(
+    discoveryPrefix,
+    topicPrefix,
+    device,
+    stream,
+    { component: 'sensor', mapping },
+    mappings
+  );
+}
+
+/**
+ * Create the discovery config of a widget stream published as the given entity
+ *
+ * Number, select and switch entities take commands on the stream's `/set`
+ * topic; switches send and report the raw 1/0 value.
+ */
+export function createStreamEntityConfig(
+  discoveryPrefix: string,
+  topicPrefix: string,
+  device: EviqoDevicePageModel,
+  stream: DisplayDataStream,
+  entity: StreamEntity,
+  mappings: DeviceMappings = DEFAULT_MAPPINGS
 ): { topic: string; payload: HaEntityConfig } {
   const deviceId = `eviqo_${device.id}`;
-  const sensorId = getTopicId(stream.name);
+  const sensorId = getTopicId(stream.name, mappings);
   const uniqueId = `${deviceId}_${sensorId}`;
 
-  const mapping = WIDGET_MAPPINGS[stream.name] || {};
-
   // Use units from mapping (Eviqo often returns "None" which is not useful)
+  const mapping = entity.mapping;
   const unit = mapping.unit;
 
   const config: HaEntityConfig = {
@@ -155,23 +169,44 @@ export function createSensorConfig(
     payload_not_available: 'offline',
   };
 
-  if (mapping.device_class) {
+  // Units and classes only apply to sensors and numbers
+  const measured = entity.component === 'sensor' || entity.component === 'number';
+  if (measured && mapping.device_class) {
     config.device_class = mapping.device_class;
   }
-  if (unit) {
+  if (measured && unit) {
     config.unit_of_measurement = unit;
   }
-  if (mapping.state_class) {
+  if (entity.component === 'sensor' && mapping.state_class) {
     config.state_class = mapping.state_class;
   }
   if (mapping.icon) {
     config.icon = mapping.icon;
   }
-  if (mapping.precision !== undefined) {
+  if (entity.component === 'sensor' && mapping.precision !== undefined) {
     config.suggested_display_precision = mapping.precision;
   }
 
-  const topic = `${discoveryPrefix}/sensor/${deviceId}/${sensorId}/config`;
+  switch (entity.component) {
+    case 'switch':
+      config.command_topic = `${topicPrefix}/${device.id}/${sensorId}/set`;
+      config.payload_on = '1';
+      config.payload_off = '0';
+      break;
+    case 'number':
+      config.command_topic = `${topicPrefix}/${device.id}/${sensorId}/set`;
+      config.min = entity.min;
+      config.max = entity.max;
+      config.step = entity.step;
+      config.mode = 'auto';
+      break;
+    case 'select':
+      config.command_topic = `${topicPrefix}/${device.id}/${sensorId}/set`;
+      config.options = entity.options;
+      break;
+  }
+
+  const topic = `${discoveryPrefix}/${entity.component}/${deviceId}/${sensorId}/config`;
 
   return { topic, payload: config };
 }
@@ -247,17 +282,6 @@ export function createSwitchConfig(
   return { topic, payload: config };
 }
 
-/**
- * Controllable widget pin mappings
- * Maps widget names to their control pins and settings
- */
-export const CONTROLLABLE_WIDGETS: Record<
-  string,
-  { pin: string; min: number; step: number; mode: string; icon?: string; maxWidgetName?: string; defaultMax?: number; topic_id: string }
-> = {
-  Current: { pin: '3', min: 0, step: 1, mode: 'slider', icon: 'mdi:current-ac', maxWidgetName: 'Current max', defaultMax: 48, topic_id: 'current_limit' },
-};
-
 /**
  * Find a widget value by name from a device's dashboard
  */
@@ -282,7 +306,7 @@ export function createNumberConfig(
   topicPrefix: string,
   device: EviqoDevicePageModel,
   name: string,
-  settings: { pin: string; min: number; step: number; mode: string; icon?: string; maxWidgetName?: string; defaultMax?: number; topic_id: string }
+  settings: ControlSettings
 ): { topic: string; payload: HaEntityConfig } {
   const deviceId = `eviqo_${device.id}`;
   const entityId = settings.topic_id;
@@ -314,10 +338,14 @@ export function createNumberConfig(
     max: maxValue,
     step: settings.step,
     mode: settings.mode,
-    unit_of_measurement: 'A',
-    device_class: 'current',
   };
 
+  if (settings.unit) {
+    config.unit_of_measurement = settings.unit;
+  }
+  if (settings.device_class) {
+    config.device_class = settings.device_class;
+  }
   if (settings.icon) {
     config.icon = settings.icon;
   }
@@ -327,136 +355,519 @@ export function createNumberConfig(
   return { topic, payload: config };
 }
 
+/**
+ * Entity configs of a single widget stream: its own entity and, for
+ * controls, the number entity
+ */
+export function createStreamConfigs(
+  discoveryPrefix: string,
+  topicPrefix: string,
+  device: EviqoDevicePageModel,
+  stream: DisplayDataStream,
+  mappings: DeviceMappings = DEFAULT_MAPPINGS
+): EntityConfig[] {
+  const configs: EntityConfig[] = [];
+
+  // The widget's entity if it is mapped (or inferred, for included unmapped widgets)
+  const entity = resolveStreamEntity(mappings, stream, isOnOffDatastream(device, stream.pin));
+  if (entity) {
+    if (!(stream.name in mappings.widgets)) {
+      logger.debug(`Inferred ${entity.component} for "${stream.name}": ${JSON.stringify(entity)}`);
+    }
+    configs.push(
+      createStreamEntityConfig(discoveryPrefix, topicPrefix, device, stream, entity, mappings)
+    );
+  }
+
+  // Number entity if the widget is controllable
+  const controlSettings = mappings.controls[stream.name];
+  if (controlSettings) {
+    configs.push(
+      createNumberConfig(discoveryPrefix, topicPrefix, device, stream.name, controlSettings)
+    );
+  }
+
+  return configs;
+}
+
+/**
+ * Entity configs of a device: its widget streams (module on/off
+ * datastreams included), connectivity and the charging switch
+ */
+export function createDeviceConfigs(
+  discoveryPrefix: string,
+  topicPrefix: string,
+  device: EviqoDevicePageModel,
+  mappings: DeviceMappings = DEFAULT_MAPPINGS
+): EntityConfig[] {
+  return [
+    ...pageDatastreams(device).flatMap((stream) =>
+      createStreamConfigs(discoveryPrefix, topicPrefix, device, stream, mappings)
+    ),
+    createBinarySensorConfig(discoveryPrefix, topicPrefix, device, 'Connectivity', 'connectivity'),
+    createSwitchConfig(discoveryPrefix, topicPrefix, device, 'Charging', 'mdi:ev-station'),
+  ];
+}
+
+/**
+ * Get the device discovery topic of a device
+ */
+export function getDeviceConfigTopic(discoveryPrefix: string, device: EviqoDevicePageModel): string {
+  return `${discoveryPrefix}/device/eviqo_${device.id}/config`;
+}
+
+/**
+ * Create the Home Assistant device discovery config holding the entity
+ * configs of a device as components
+ *
+ * @param configs - Entity configs, as created for entity discovery
+ * @param removed - Components published before and gone now; they are sent
+ * with only their platform, which removes them from Home Assistant
+ */
+export function createDeviceConfig(
+  discoveryPrefix: string,
+  device: EviqoDevicePageModel,
+  configs: EntityConfig[],
+  removed: PublishedComponent[] = []
+): { topic: string; payload: HaDeviceConfig } {
+  const components: HaDeviceConfig['components'] = {};
+  for (const { platform, objectId } of removed) {
+    components[objectId] = { platform };
+  }
+  for (const { topic, payload } of configs) {
+    const { platform, objectId } = parseConfigTopic(discoveryPrefix, topic);
+    const component: HaDeviceConfig['components'][string] = { platform, ...payload };
+    delete (component as Partial<HaEntityConfig>).device;
+    components[objectId] = component;
+  }
+
+  const config: HaDeviceConfig = {
+    device: createDeviceInfo(device),
+    origin: {
+      name: 'eviqo-mqtt',
+      support_url: 'https://github.com/tsightler/eviqo-client-api',
+    },
+    components,
+  };
+
+  return { topic: getDeviceConfigTopic(discoveryPrefix, device), payload: config };
+}
+
 /**
  * Publish Home Assistant discovery configs for a device
+ *
+ * When a device is published for the first time, or in another mode than
+ * recorded in the registry, the configs of the other discovery mode are
+ * cleared, so switching modes does not leave duplicate entities behind.
+ * With a registry, configs published before and no longer part of the
+ * device are removed.
  */
 export async function publishDeviceDiscovery(
   mqttClient: MqttClient,
   discoveryPrefix: string,
   topicPrefix: string,
-  device: EviqoDevicePageModel
+  device: EviqoDevicePageModel,
+  mappings: DeviceMappings = DEFAULT_MAPPINGS,
+  options: DiscoveryOptions = {}
 ): Promise<void> {
-  const dashboard = device.dashboard;
+  const { registry } = options;
+  const mode = options.mode ?? 'entity';
+  const nodeId = `eviqo_${device.id}`;
+  const previousMode = registry?.getMode(nodeId);
+  const published = registry?.components(nodeId) ?? [];
 
   // Log all available widget names for debugging
-  const allWidgetNames: string[] = [];
-  for (const widget of dashboard.widgets) {
-    for (const module of widget.modules) {
-      for (const stream of module.displayDataStreams) {
-        allWidgetNames.push(`"${stream.name}" (pin ${stream.pin})`);
+  const allWidgetNames = pageDatastreams(device).map(
+    (stream) => `"${stream.name}" (pin ${stream.pin})`
+  );
+  logger.info(`Available widgets: ${allWidgetNames.join(', ')}`);
+
+  const configs = createDeviceConfigs(discoveryPrefix, topicPrefix, device, mappings);
+  const topics = new Set(configs.map((config) => config.topic));
+  const gone =
+    previousMode === mode
+      ? published.filter(
+          (component) => !topics.has(getEntityConfigTopic(discoveryPrefix, nodeId, component))
+        )
+      : [];
+
+  // Remove old binary sensor config for charging (now a switch)
+  await publishRetained(mqttClient, `${discoveryPrefix}/binary_sensor/${nodeId}/charging/config`, '');
+
+  if (mode === 'device') {
+    // Clear entity configs left by entity discovery
+    if (previousMode !== 'device') {
+      const stale = new Set(topics);
+      for (const component of published) {
+        stale.add(getEntityConfigTopic(discoveryPrefix, nodeId, component));
+      }
+      for (const topic of stale) {
+        await publishRetained(mqttClient, topic, '');
       }
     }
+
+    const deviceConfig = createDeviceConfig(discoveryPrefix, device, configs, gone);
+    logger.debug(`Publishing device discovery: ${deviceConfig.topic}`);
+    await publishRetained(mqttClient, deviceConfig.topic, JSON.stringify(deviceConfig.payload));
+
+    registry?.clear(nodeId);
+    for (const { topic } of configs) {
+      const { platform, objectId } = parseConfigTopic(discoveryPrefix, topic);
+      registry?.record(nodeId, { platform, objectId });
+    }
+    registry?.setMode(nodeId, mode);
+    return;
   }
-  logger.info(`Available widgets: ${allWidgetNames.join(', ')}`);
 
-  // Publish sensor configs for each widget stream
-  for (const widget of dashboard.widgets) {
-    for (const module of widget.modules) {
-      for (const stream of module.displayDataStreams) {
-        // Publish sensor config if widget is in WIDGET_MAPPINGS
-        if (stream.name in WIDGET_MAPPINGS) {
-          const { topic, payload } = createSensorConfig(
-            discoveryPrefix,
-            topicPrefix,
-            device,
-            stream
-          );
-
-          await publishRetained(mqttClient, topic, JSON.stringify(payload));
-        }
+  // Clear the device config left by device discovery
+  if (previousMode !== 'entity') {
+    await publishRetained(mqttClient, getDeviceConfigTopic(discoveryPrefix, device), '');
+    registry?.clear(nodeId);
+  }
+  for (const component of gone) {
+    await clearEntityConfig(
+      mqttClient,
+      discoveryPrefix,
+      getEntityConfigTopic(discoveryPrefix, nodeId, component),
+      registry
+    );
+  }
+  for (const config of configs) {
+    await publishEntityConfig(mqttClient, discoveryPrefix, config, registry);
+  }
+  registry?.setMode(nodeId, mode);
+}
 
-        // Publish number entity config if widget is controllable
-        const controlSettings = CONTROLLABLE_WIDGETS[stream.name];
-        if (controlSettings) {
-          const numberConfig = createNumberConfig(
-            discoveryPrefix,
-            topicPrefix,
-            device,
-            stream.name,
-            controlSettings
-          );
-          logger.info(`Publishing number entity: ${numberConfig.topic}`);
-          logger.debug(`Number config payload: ${JSON.stringify(numberConfig.payload)}`);
-          await publishRetained(
-            mqttClient,
-            numberConfig.topic,
-            JSON.stringify(numberConfig.payload)
-          );
-        }
+/**
+ * Publish the entity configs of a single widget stream (entity discovery)
+ */
+export async function publishStreamDiscovery(
+  mqttClient: MqttClient,
+  discoveryPrefix: string,
+  topicPrefix: string,
+  device: EviqoDevicePageModel,
+  stream: DisplayDataStream,
+  mappings: DeviceMappings = DEFAULT_MAPPINGS,
+  options: DiscoveryOptions = {}
+): Promise<void> {
+  const configs = createStreamConfigs(discoveryPrefix, topicPrefix, device, stream, mappings);
+  for (const config of configs) {
+    await publishEntityConfig(mqttClient, discoveryPrefix, config, options.registry);
+  }
+}
+
+/**
+ * Remove the entity configs of a single widget stream (entity discovery)
+ *
+ * With a registry that knows the device, exactly the configs published for
+ * the stream's object IDs are cleared; otherwise their topics are computed
+ * from the stream and mappings.
+ */
+export async function removeStreamDiscovery(
+  mqttClient: MqttClient,
+  discoveryPrefix: string,
+  device: EviqoDevicePageModel,
+  stream: DisplayDataStream,
+  mappings: DeviceMappings = DEFAULT_MAPPINGS,
+  options: DiscoveryOptions = {}
+): Promise<void> {
+  const { registry } = options;
+  const deviceId = `eviqo_${device.id}`;
+  const sensorId = getTopicId(stream.name, mappings);
+  const controlSettings = mappings.controls[stream.name];
+
+  if (registry?.has(deviceId)) {
+    const objectIds = new Set([sensorId]);
+    if (controlSettings) {
+      objectIds.add(`${controlSettings.topic_id}_control`);
+    }
+    for (const component of registry.components(deviceId)) {
+      if (objectIds.has(component.objectId)) {
+        const topic = getEntityConfigTopic(discoveryPrefix, deviceId, component);
+        await clearEntityConfig(mqttClient, discoveryPrefix, topic, registry);
       }
     }
+    return;
   }
 
-  // Publish connectivity binary sensor
-  const connectivityConfig = createBinarySensorConfig(
-    discoveryPrefix,
-    topicPrefix,
-    device,
-    'Connectivity',
-    'connectivity'
-  );
-  await publishRetained(mqttClient, connectivityConfig.topic, JSON.stringify(connectivityConfig.payload));
+  await publishRetained(mqttClient, `${discoveryPrefix}/sensor/${deviceId}/${sensorId}/config`, '');
 
-  // Publish charging switch (and remove old binary sensor config if it exists)
-  const deviceId = `eviqo_${device.id}`;
-  await publishRetained(mqttClient, `${discoveryPrefix}/binary_sensor/${deviceId}/charging/config`, '');
+  // Remove the config of widgets inferred as another component
+  const onOff = isOnOffDatastream(device, stream.pin);
+  const component = resolveStreamEntity(mappings, stream, onOff)?.component;
+  if (component && component !== 'sensor') {
+    await publishRetained(mqttClient, `${discoveryPrefix}/${component}/${deviceId}/${sensorId}/config`, '');
+  }
 
-  const chargingConfig = createSwitchConfig(
-    discoveryPrefix,
-    topicPrefix,
-    device,
-    'Charging',
-    'mdi:ev-station'
+  // Remove number entity configs for controllable widgets
+  if (controlSettings) {
+    const numberTopic = `${discoveryPrefix}/number/${deviceId}/${controlSettings.topic_id}_control/config`;
+    await publishRetained(mqttClient, numberTopic, '');
+  }
+}
+
+/**
+ * Republish discovery for what changed on a refreshed device page
+ *
+ * Name and hardware info are part of the device block embedded in every
+ * entity config, so a change to either republishes the whole device.
+ * Otherwise only added and redefined streams are published, and removed
+ * (or renamed, or now published as another component) streams have their
+ * configs cleared. Device discovery always republishes the device config,
+ * which holds every entity.
+ */
+export async function publishDiscoveryChanges(
+  mqttClient: MqttClient,
+  discoveryPrefix: string,
+  topicPrefix: string,
+  device: EviqoDevicePageModel,
+  diff: DevicePageDiff,
+  mappings: DeviceMappings = DEFAULT_MAPPINGS,
+  options: DiscoveryOptions = {}
+): Promise<void> {
+  if (options.mode === 'device') {
+    await publishDeviceDiscovery(mqttClient, discoveryPrefix, topicPrefix, device, mappings, options);
+    return;
+  }
+
+  const stale = [...diff.removedStreams];
+  for (const change of diff.changedStreams) {
+    const onOff = isOnOffDatastream(device, change.pin);
+    if (
+      getTopicId(change.before.name, mappings) !== getTopicId(change.after.name, mappings) ||
+      resolveStreamEntity(mappings, change.before, onOff)?.component !==
+        resolveStreamEntity(mappings, change.after, onOff)?.component
+    ) {
+      stale.push(change.before);
+    }
+  }
+  for (const stream of stale) {
+    logger.info(`Removing discovery for "${stream.name}" (pin ${stream.pin})`);
+    await removeStreamDiscovery(mqttClient, discoveryPrefix, device, stream, mappings, options);
+  }
+
+  if (diff.name || diff.hardwareInfo.length > 0) {
+    await publishDeviceDiscovery(mqttClient, discoveryPrefix, topicPrefix, device, mappings, options);
+    return;
+  }
+
+  const streams = [...diff.addedStreams, ...diff.changedStreams.map((change) => change.after)];
+  for (const stream of streams) {
+    logger.info(`Publishing discovery for "${stream.name}" (pin ${stream.pin})`);
+    await publishStreamDiscovery(
+      mqttClient,
+      discoveryPrefix,
+      topicPrefix,
+      device,
+      stream,
+      mappings,
+      options
+    );
+  }
+}
+
+/**
+ * Id of the Home Assistant device that holds the gateway's own entities
+ */
+const GATEWAY_DEVICE_ID = 'eviqo_gateway';
+
+/**
+ * Topic the account information is published to (retained JSON)
+ */
+export function getAccountTopic(topicPrefix: string): string {
+  return `${topicPrefix}/gateway/account`;
+}
+
+/**
+ * Create the diagnostic sensor that reports the Eviqo cloud version
+ *
+ * The state is the server version; the rest of the account information
+ * is exposed as attributes.
+ */
+export function createServerVersionConfig(
+  discoveryPrefix: string,
+  topicPrefix: string,
+  account: AccountInfo
+): { topic: string; payload: HaEntityConfig } {
+  const config: HaEntityConfig = {
+    name: 'Cloud server version',
+    unique_id: `${GATEWAY_DEVICE_ID}_server_version`,
+    state_topic: `${topicPrefix}/gateway/server_version/state`,
+    json_attributes_topic: getAccountTopic(topicPrefix),
+    device: {
+      identifiers: [GATEWAY_DEVICE_ID],
+      name: 'Eviqo Gateway',
+      manufacturer: 'Eviqo',
+      model: account.appName || 'Eviqo Cloud',
+      sw_version: account.serverVersion || undefined,
+      configuration_url: 'https://app.eviqo.io/dashboard',
+    },
+    entity_category: 'diagnostic',
+    icon: 'mdi:cloud-tag',
+  };
+
+  const topic = `${discoveryPrefix}/sensor/${GATEWAY_DEVICE_ID}/server_version/config`;
+
+  return { topic, payload: config };
+}
+
+/**
+ * Publish the account information and its diagnostic sensor
+ *
+ * The account email is left out of the published attributes.
+ */
+export async function publishAccountInfo(
+  mqttClient: MqttClient,
+  discoveryPrefix: string,
+  topicPrefix: string,
+  account: AccountInfo
+): Promise<void> {
+  const { topic, payload } = createServerVersionConfig(discoveryPrefix, topicPrefix, account);
+  await publishRetained(mqttClient, topic, JSON.stringify(payload));
+
+  const attributes: Partial<AccountInfo> = { ...account };
+  delete attributes.email;
+  await publishRetained(mqttClient, getAccountTopic(topicPrefix), JSON.stringify(attributes));
+  await publishRetained(mqttClient, payload.state_topic, account.serverVersion);
+}
+
+/**
+ * Remove the gateway's diagnostic sensor and account information
+ */
+export async function removeAccountInfo(
+  mqttClient: MqttClient,
+  discoveryPrefix: string,
+  topicPrefix: string
+): Promise<void> {
+  await publishRetained(
+    mqttClient,
+    `${discoveryPrefix}/sensor/${GATEWAY_DEVICE_ID}/server_version/config`,
+    ''
   );
-  await publishRetained(mqttClient, chargingConfig.topic, JSON.stringify(chargingConfig.payload));
+  await publishRetained(mqttClient, getAccountTopic(topicPrefix), '');
+  await publishRetained(mqttClient, `${topicPrefix}/gateway/server_version/state`, '');
 }
 
 /**
  * Remove Home Assistant discovery configs for a device
+ *
+ * With a registry that knows the device, exactly the configs recorded for
+ * it are cleared. Otherwise device discovery clears the device config, and
+ * entity discovery the topics computed from the device page and mappings.
  */
 export async function removeDeviceDiscovery(
   mqttClient: MqttClient,
   discoveryPrefix: string,
-  device: EviqoDevicePageModel
+  device: EviqoDevicePageModel,
+  mappings: DeviceMappings = DEFAULT_MAPPINGS,
+  options: DiscoveryOptions = {}
 ): Promise<void> {
+  const { registry } = options;
   const deviceId = `eviqo_${device.id}`;
-  const dashboard = device.dashboard;
-
-  // Remove sensor configs
-  for (const widget of dashboard.widgets) {
-    for (const module of widget.modules) {
-      for (const stream of module.displayDataStreams) {
-        const sensorId = normalizeTopicName(stream.name);
-        const topic = `${discoveryPrefix}/sensor/${deviceId}/${sensorId}/config`;
-        await publishRetained(mqttClient, topic, '');
 
-        // Remove number entity configs for controllable widgets
-        if (CONTROLLABLE_WIDGETS[stream.name]) {
-          const numberTopic = `${discoveryPrefix}/number/${deviceId}/${sensorId}_control/config`;
-          await publishRetained(mqttClient, numberTopic, '');
-        }
-      }
+  if (registry?.has(deviceId)) {
+    await removeRecordedDiscovery(mqttClient, discoveryPrefix, deviceId, registry);
+  } else if (options.mode === 'device') {
+    await publishRetained(mqttClient, getDeviceConfigTopic(discoveryPrefix, device), '');
+  } else {
+    // Remove widget stream configs
+    for (const stream of pageDatastreams(device)) {
+      await removeStreamDiscovery(mqttClient, discoveryPrefix, device, stream, mappings);
     }
-  }
 
-  // Remove binary sensor configs
-  const binarySensors = ['connectivity'];
-  for (const sensorId of binarySensors) {
-    const topic = `${discoveryPrefix}/binary_sensor/${deviceId}/${sensorId}/config`;
-    await publishRetained(mqttClient, topic, '');
-  }
+    // Remove binary sensor configs
+    const binarySensors = ['connectivity'];
+    for (const sensorId of binarySensors) {
+      const topic = `${discoveryPrefix}/binary_sensor/${deviceId}/${sensorId}/config`;
+      await publishRetained(mqttClient, topic, '');
+    }
 
-  // Remove switch configs
-  const switches = ['charging'];
-  for (const switchId of switches) {
-    const topic = `${discoveryPrefix}/switch/${deviceId}/${switchId}/config`;
-    await publishRetained(mqttClient, topic, '');
+    // Remove switch configs
+    const switches = ['charging'];
+    for (const switchId of switches) {
+      const topic = `${discoveryPrefix}/switch/${deviceId}/${switchId}/config`;
+      await publishRetained(mqttClient, topic, '');
+    }
   }
 
   // Also remove old binary sensor config for charging (in case upgrading from old version)
   await publishRetained(mqttClient, `${discoveryPrefix}/binary_sensor/${deviceId}/charging/config`, '');
 }
 
+/**
+ * Remove the discovery configs recorded for a device node
+ *
+ * Works without the device page, so devices that left the account while
+ * the gateway was not running can be cleaned up from a persisted registry.
+ */
+export async function removeRecordedDiscovery(
+  mqttClient: MqttClient,
+  discoveryPrefix: string,
+  nodeId: string,
+  registry: DiscoveryRegistry
+): Promise<void> {
+  if (registry.getMode(nodeId) === 'device') {
+    await publishRetained(mqttClient, `${discoveryPrefix}/device/${nodeId}/config`, '');
+  } else {
+    for (const component of registry.components(nodeId)) {
+      const topic = getEntityConfigTopic(discoveryPrefix, nodeId, component);
+      await clearEntityConfig(mqttClient, discoveryPrefix, topic, registry);
+    }
+  }
+  registry.clear(nodeId);
+}
+
+/**
+ * Get the entity config topic of a published component
+ */
+function getEntityConfigTopic(
+  discoveryPrefix: string,
+  nodeId: string,
+  component: PublishedComponent
+): string {
+  return `${discoveryPrefix}/${component.platform}/${nodeId}/${component.objectId}/config`;
+}
+
+/**
+ * Split an entity config topic into its platform, node ID and object ID
+ */
+function parseConfigTopic(
+  discoveryPrefix: string,
+  topic: string
+): PublishedComponent & { nodeId: string } {
+  const [platform, nodeId, objectId] = topic.slice(discoveryPrefix.length + 1).split('/');
+  return { platform, nodeId, objectId };
+}
+
+/**
+ * Publish an entity config and record it in the registry
+ */
+async function publishEntityConfig(
+  mqttClient: MqttClient,
+  discoveryPrefix: string,
+  config: EntityConfig,
+  registry?: DiscoveryRegistry
+): Promise<void> {
+  logger.debug(`Publishing discovery config: ${config.topic}`);
+  await publishRetained(mqttClient, config.topic, JSON.stringify(config.payload));
+  const { nodeId, platform, objectId } = parseConfigTopic(discoveryPrefix, config.topic);
+  registry?.record(nodeId, { platform, objectId });
+}
+
+/**
+ * Clear an entity config and forget it in the registry
+ */
+async function clearEntityConfig(
+  mqttClient: MqttClient,
+  discoveryPrefix: string,
+  topic: string,
+  registry?: DiscoveryRegistry
+): Promise<void> {
+  await publishRetained(mqttClient, topic, '');
+  const { nodeId, platform, objectId } = parseConfigTopic(discoveryPrefix, topic);
+  registry?.forget(nodeId, { platform, objectId });
+}
+
 /**
  * Helper to publish a retained message
  */
@@ -14,19 +14,70 @@ export {
   GatewayConfig,
   MqttConfig,
   EviqoConfig,
+  ReconnectConfig,
   loadConfig,
 } from './config';
 
+// Widget-to-entity mappings
+export {
+  WidgetMapping,
+  ControlSettings,
+  DeviceMappings,
+  MappingOverrides,
+  MappingFile,
+  EntityMappings,
+  WIDGET_MAPPINGS,
+  CONTROLLABLE_WIDGETS,
+  DEFAULT_MAPPINGS,
+  getSensorMapping,
+  normalizeTopicName,
+  mappingFileSchema,
+  parseMappingFile,
+  validateMappings,
+  loadMappingFile,
+  mergeMappingFiles,
+} from './mappings';
+
+// Entity inference for unmapped widgets
+export {
+  EntityComponent,
+  StreamEntity,
+  inferEntity,
+  resolveStreamEntity,
+  isWritableEntity,
+  streamUnits,
+  selectOption,
+  selectValue,
+} from './inference';
+
 // Home Assistant discovery
 export {
   DeviceInfo,
   HaEntityConfig,
+  HaDeviceConfig,
+  EntityConfig,
+  DiscoveryOptions,
   createDeviceInfo,
   createSensorConfig,
+  createStreamEntityConfig,
+  getTopicId,
   createBinarySensorConfig,
+  createServerVersionConfig,
+  getAccountTopic,
+  publishAccountInfo,
+  removeAccountInfo,
   publishDeviceDiscovery,
+  publishDiscoveryChanges,
+  publishStreamDiscovery,
   removeDeviceDiscovery,
+  removeStreamDiscovery,
+  createStreamConfigs,
+  createDeviceConfigs,
+  createDeviceConfig,
+  getDeviceConfigTopic,
+  removeRecordedDiscovery,
 } from './ha-discovery';
+export { DiscoveryMode, DiscoveryRegistry, PublishedComponent } from './discovery-registry';
 
 // Re-export useful types from client API
 export {
@@ -0,0 +1,204 @@
+/**
+ * Entity inference for unmapped widgets
+ *
+ * Widgets without a mapping are turned into Home Assistant entities from
+ * their datastream metadata: the visualization type, the min/max/step
+ * bounds and the units. The units also give the device class, so a new
+ * firmware datastream reported in kWh shows up as an energy sensor.
+ * Writable datastreams become controls, mapped or not.
+ */
+
+import { getStreamBounds } from 'eviqo-client-api';
+import type { DisplayDataStream } from 'eviqo-client-api';
+import { DeviceMappings, getSensorMapping, WidgetMapping } from './mappings';
+
+/**
+ * Home Assistant components a widget can be published as
+ */
+export type EntityComponent = 'sensor' | 'switch' | 'number' | 'select';
+
+/**
+ * Entity a widget is published as
+ */
+export interface StreamEntity {
+  component: EntityComponent;
+  mapping: WidgetMapping;
+  /** Bounds of number and select entities */
+  min?: number;
+  max?: number;
+  step?: number;
+  /** Options of select entities; the widget's menu labels when it has them */
+  options?: string[];
+  /** Datastream values of the select options, in the same order */
+  values?: string[];
+}
+
+/**
+ * Device and state class for known units
+ */
+const UNIT_CLASSES: Record<string, { device_class?: string; state_class: string; unit?: string }> = {
+  'V': { device_class: 'voltage', state_class: 'measurement' },
+  'mV': { device_class: 'voltage', state_class: 'measurement' },
+  'A': { device_class: 'current', state_class: 'measurement' },
+  'mA': { device_class: 'current', state_class: 'measurement' },
+  'W': { device_class: 'power', state_class: 'measurement' },
+  'kW': { device_class: 'power', state_class: 'measurement' },
+  'Wh': { device_class: 'energy', state_class: 'total_increasing' },
+  'kWh': { device_class: 'energy', state_class: 'total_increasing' },
+  '°C': { device_class: 'temperature', state_class: 'measurement' },
+  'C': { device_class: 'temperature', state_class: 'measurement', unit: '°C' },
+  '°F': { device_class: 'temperature', state_class: 'measurement' },
+  'F': { device_class: 'temperature', state_class: 'measurement', unit: '°F' },
+  'Hz': { device_class: 'frequency', state_class: 'measurement' },
+  's': { device_class: 'duration', state_class: 'measurement' },
+  'min': { device_class: 'duration', state_class: 'measurement' },
+  'h': { device_class: 'duration', state_class: 'measurement' },
+  '%': { state_class: 'measurement' },
+};
+
+/**
+ * Visualization types of datastreams that pick one of a few values
+ */
+const SELECT_TYPES = new Set(['MENU', 'SEGMENTED_SWITCH']);
+
+/**
+ * Most values a select entity is built with; wider ranges become numbers
+ */
+const MAX_SELECT_OPTIONS = 20;
+
+/**
+ * Menu labels usable as select options: one distinct, non-empty label per value
+ */
+function menuLabels(labels: string[] | undefined, count: number): string[] | undefined {
+  if (
+    !Array.isArray(labels) ||
+    labels.length !== count ||
+    labels.some((label) => typeof label !== 'string' || label === '') ||
+    new Set(labels).size !== count
+  ) {
+    return undefined;
+  }
+  return labels;
+}
+
+/**
+ * Units of a datastream, or undefined when it reports none
+ *
+ * Eviqo reports "None" for datastreams without units; the visualization
+ * units take precedence over the datastream's.
+ */
+export function streamUnits(stream: DisplayDataStream): string | undefined {
+  for (const units of [stream.visualization.units, stream.units]) {
+    if (units && units !== 'None') {
+      return units;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Infer the entity of a datastream from its metadata
+ *
+ * @param onOff - Whether the datastream is a module's on/off datastream,
+ * always published as a switch
+ */
+export function inferEntity(stream: DisplayDataStream, onOff = false): StreamEntity {
+  const visualization = stream.visualization;
+  const units = streamUnits(stream);
+  const known = units ? UNIT_CLASSES[units] : undefined;
+
+  const mapping: WidgetMapping = {};
+  if (units) {
+    mapping.unit = known?.unit ?? units;
+  }
+  if (known?.device_class) {
+    mapping.device_class = known.device_class;
+  }
+
+  if (onOff || visualization.type === 'SWITCH') {
+    return { component: 'switch', mapping: {} };
+  }
+
+  const bounds = getStreamBounds(stream);
+  if (bounds && bounds.max > bounds.min) {
+    const { min, max, step } = bounds;
+    const count = Math.floor((max - min) / step) + 1;
+    if (SELECT_TYPES.has(visualization.type) && count <= MAX_SELECT_OPTIONS) {
+      const values = Array.from({ length: count }, (_, i) => String(min + i * step));
+      const options = menuLabels(visualization.labels, count) ?? values;
+      return { component: 'select', mapping: {}, options, values };
+    }
+    return { component: 'number', mapping, min, max, step };
+  }
+
+  if (known) {
+    mapping.state_class = known.state_class;
+  } else if (visualization.value !== '' && !isNaN(Number(visualization.value))) {
+    mapping.state_class = 'measurement';
+  }
+  return { component: 'sensor', mapping };
+}
+
+/**
+ * Entity a datastream is published as from its own state topic
+ *
+ * Mapped widgets are sensors with their mapping, or controls when their
+ * datastream is writable; unmapped widgets are inferred when unmapped
+ * widgets are included. Returns undefined for disabled widgets, controls
+ * (published as number entities), unmapped widgets on the pin of a
+ * disabled control and unmapped widgets that are not included.
+ *
+ * @param onOff - Whether the datastream is a module's on/off datastream
+ */
+export function resolveStreamEntity(
+  mappings: DeviceMappings,
+  stream: DisplayDataStream,
+  onOff = false
+): StreamEntity | undefined {
+  const mapping = getSensorMapping(mappings, stream.name);
+  if (!mapping) {
+    return undefined;
+  }
+  const mapped = stream.name in mappings.widgets;
+  if (!mapped && mappings.disabledPins.has(String(stream.pin))) {
+    return undefined;
+  }
+  const inferred = inferEntity(stream, onOff);
+  if (mapped) {
+    return inferred.component === 'sensor'
+      ? { component: 'sensor', mapping }
+      : { ...inferred, mapping };
+  }
+  return inferred;
+}
+
+/**
+ * Select option shown for a datastream value
+ *
+ * Returns the value itself for other entities and unknown values.
+ */
+export function selectOption(entity: StreamEntity | undefined, value: string): string {
+  const index = entity?.values?.findIndex((v) => Number(v) === Number(value)) ?? -1;
+  return index >= 0 && entity?.options ? entity.options[index] : value;
+}
+
+/**
+ * Datastream value of a select option
+ *
+ * Returns the option itself for other entities, and undefined for options
+ * the select entity does not have.
+ */
+export function selectValue(entity: StreamEntity | undefined, option: string): string | undefined {
+  if (entity?.component !== 'select' || !entity.values) {
+    return option;
+  }
+  const index = entity.options?.indexOf(option) ?? -1;
+  return index >= 0 ? entity.values[index] : undefined;
+}
+
+/**
+ * Whether an entity takes commands on a `/set` topic
+ */
+export function isWritableEntity(entity: StreamEntity | undefined): boolean {
+  return entity !== undefined && entity.component !== 'sensor';
+}
@@ -0,0 +1,436 @@
+/**
+ * Widget-to-entity mappings
+ *
+ * Decide which widgets become Home Assistant entities and how (device
+ * class, unit, icon, topic id). The built-in defaults can be overridden by
+ * a mapping file (YAML or JSON) and the add-on options, for every device
+ * or per device.
+ */
+
+import { readFileSync } from 'fs';
+import * as yaml from 'js-yaml';
+import { z } from 'zod';
+
+/**
+ * Widget mapping configuration
+ */
+export interface WidgetMapping {
+  device_class?: string;
+  unit?: string;
+  state_class?: string;
+  icon?: string;
+  topic_id?: string;  // Custom topic name (defaults to normalized widget name)
+  precision?: number; // Display precision (decimal places)
+}
+
+/**
+ * Control settings of a writable widget, published as a number entity
+ */
+export interface ControlSettings {
+  pin: string;
+  min: number;
+  step: number;
+  mode: string;
+  icon?: string;
+  /** Widget whose value is the upper bound */
+  maxWidgetName?: string;
+  /** Upper bound when there is no max widget value */
+  defaultMax?: number;
+  topic_id: string;
+  unit?: string;
+  device_class?: string;
+}
+
+/**
+ * Map widget names to Home Assistant device classes and units.
+ * Widgets not listed here are inferred from their datastream (see inference.ts),
+ * unless unmapped widgets are excluded.
+ */
+export const WIDGET_MAPPINGS: Record<string, WidgetMapping> = {
+  // Power and energy
+  'Charging Power': { device_class: 'power', unit: 'kW', state_class: 'measurement' },
+  'Power': { device_class: 'power', unit: 'kW', state_class: 'measurement' },
+  'Energy': { device_class: 'energy', unit: 'kWh', state_class: 'total_increasing' },
+  'Total Energy': { device_class: 'energy', unit: 'kWh', state_class: 'total_increasing' },
+  'Session Energy': { device_class: 'energy', unit: 'kWh', state_class: 'total_increasing' },
+
+  // Electrical
+  'Voltage': { device_class: 'voltage', unit: 'V', state_class: 'measurement', precision: 2 },
+  'Amperage': { device_class: 'current', unit: 'A', state_class: 'measurement', precision: 1 },
+  'Frequency': { device_class: 'frequency', unit: 'Hz', state_class: 'measurement' },
+
+  // Temperature
+  'Temperature': { device_class: 'temperature', unit: '°C', state_class: 'measurement' },
+  'Charger Temperature': { device_class: 'temperature', unit: '°C', state_class: 'measurement' },
+
+  // Session
+  'Session duration': { icon: 'mdi:timer' },
+  'Session power': { device_class: 'energy', unit: 'kWh', state_class: 'total_increasing' },
+  'Session cost': { icon: 'mdi:currency-usd' },
+
+  // Status
+  'Status': { icon: 'mdi:ev-station' },
+  'Charging Status': { icon: 'mdi:ev-station' },
+  'Connection Status': { icon: 'mdi:connection' },
+
+  // Battery/SoC
+  'State of Charge': { device_class: 'battery', unit: '%', state_class: 'measurement' },
+  'SoC': { device_class: 'battery', unit: '%', state_class: 'measurement' },
+  'Battery': { device_class: 'battery', unit: '%', state_class: 'measurement' },
+};
+
+/**
+ * Controllable widget pin mappings
+ * Maps widget names to their control pins and settings
+ */
+export const CONTROLLABLE_WIDGETS: Record<string, ControlSettings> = {
+  Current: {
+    pin: '3',
+    min: 0,
+    step: 1,
+    mode: 'slider',
+    icon: 'mdi:current-ac',
+    maxWidgetName: 'Current max',
+    defaultMax: 48,
+    topic_id: 'current_limit',
+    unit: 'A',
+    device_class: 'current',
+  },
+};
+
+/**
+ * Mappings in effect for one device
+ */
+export interface DeviceMappings {
+  widgets: Record<string, WidgetMapping>;
+  controls: Record<string, ControlSettings>;
+  /** Publish widgets without a mapping as entities inferred from their datastream */
+  includeUnmapped: boolean;
+  /** Widgets disabled by an override; never published */
+  disabled: Set<string>;
+  /** Pins of controls disabled by an override; not inferred as unmapped widgets either */
+  disabledPins: Set<string>;
+}
+
+/**
+ * The built-in mappings
+ */
+export const DEFAULT_MAPPINGS: DeviceMappings = {
+  widgets: WIDGET_MAPPINGS,
+  controls: CONTROLLABLE_WIDGETS,
+  includeUnmapped: true,
+  disabled: new Set(),
+  disabledPins: new Set(),
+};
+
+/**
+ * Normalize widget name for MQTT topic (lowercase, underscores)
+ */
+export function normalizeTopicName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
+/**
+ * Sensor mapping of a widget, or undefined if the widget is not published as a sensor
+ *
+ * Unmapped widgets get an empty mapping when they are included, unless
+ * they are controls (published as number entities instead).
+ */
+export function getSensorMapping(
+  mappings: DeviceMappings,
+  widgetName: string
+): WidgetMapping | undefined {
+  if (mappings.disabled.has(widgetName)) {
+    return undefined;
+  }
+  if (widgetName in mappings.widgets) {
+    return mappings.widgets[widgetName];
+  }
+  if (mappings.includeUnmapped && !(widgetName in mappings.controls)) {
+    return {};
+  }
+  return undefined;
+}
+
+const topicIdSchema = z
+  .string()
+  .regex(/^[a-z0-9_]+$/, 'must only contain lowercase letters, digits and underscores');
+
+const widgetSchema = z
+  .object({
+    device_class: z.string().optional(),
+    unit: z.string().optional(),
+    state_class: z.enum(['measurement', 'total', 'total_increasing']).optional(),
+    icon: z.string().optional(),
+    topic_id: topicIdSchema.optional(),
+    precision: z.number().int().min(0).optional(),
+    /** Set to false to drop the widget */
+    enabled: z.boolean().optional(),
+  })
+  .strict();
+
+const controlSchema = z
+  .object({
+    pin: z.union([z.string(), z.number()]).transform(String).optional(),
+    min: z.number().optional(),
+    step: z.number().positive().optional(),
+    mode: z.enum(['slider', 'box', 'auto']).optional(),
+    icon: z.string().optional(),
+    max_widget: z.string().optional(),
+    default_max: z.number().optional(),
+    topic_id: topicIdSchema.optional(),
+    unit: z.string().optional(),
+    device_class: z.string().optional(),
+    /** Set to false to drop the control */
+    enabled: z.boolean().optional(),
+  })
+  .strict();
+
+// Widget overrides as a list with a `name` field (as the add-on options provide)
+const widgetListSchema = z.array(
+  z.object({ name: z.string().min(1, 'name must not be empty') }).passthrough()
+);
+
+const overridesSchema = z
+  .object({
+    include_unmapped: z.boolean().optional(),
+    widgets: z.record(widgetSchema).optional(),
+    controls: z.record(controlSchema).optional(),
+  })
+  .strict();
+
+/**
+ * Schema of a mapping file
+ *
+ * `devices` holds overrides for single devices, keyed by device ID or name.
+ */
+export const mappingFileSchema = overridesSchema
+  .extend({
+    devices: z.record(overridesSchema).optional(),
+  })
+  .strict()
+  .superRefine((file, ctx) => {
+    // New controls need a pin; known ones (built in, or given a pin globally
+    // or in the same device section) may be partially overridden
+    const check = (
+      overrides: MappingOverrides,
+      path: (string | number)[],
+      known: Set<string>
+    ) => {
+      for (const [name, control] of Object.entries(overrides.controls ?? {})) {
+        if (control.pin !== undefined) {
+          known.add(name);
+        } else if (!known.has(name) && control.enabled !== false) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'pin is required for controls without built-in settings',
+            path: [...path, 'controls', name, 'pin'],
+          });
+        }
+      }
+    };
+    const globalKnown = new Set(Object.keys(CONTROLLABLE_WIDGETS));
+    check(file, [], globalKnown);
+    for (const [key, overrides] of Object.entries(file.devices ?? {})) {
+      check(overrides, ['devices', key], new Set(globalKnown));
+    }
+  });
+
+export type MappingOverrides = z.infer<typeof overridesSchema>;
+export type MappingFile = z.infer<typeof mappingFileSchema>;
+
+/**
+ * Parse and validate a mapping file (YAML or JSON)
+ *
+ * @param source - Name used in error messages
+ * @throws Error listing every problem found
+ */
+export function parseMappingFile(text: string, source = 'mapping file'): MappingFile {
+  let data: unknown;
+  try {
+    data = yaml.load(text) ?? {};
+  } catch (error) {
+    throw new Error(`Invalid ${source}: ${error instanceof Error ? error.message : error}`);
+  }
+  return validateMappings(data, source);
+}
+
+/**
+ * Validate mapping data against the schema
+ *
+ * @param source - Name used in error messages
+ * @throws Error listing every problem found
+ */
+export function validateMappings(data: unknown, source = 'mappings'): MappingFile {
+  const result = mappingFileSchema.safeParse(data);
+  if (!result.success) {
+    throw invalidMappings(result.error, source);
+  }
+  return result.data;
+}
+
+/**
+ * Validate widget overrides given either as an object keyed by widget name
+ * or as a list of overrides with a `name` field
+ *
+ * @param source - Name used in error messages
+ * @throws Error listing every problem found
+ */
+export function validateWidgetOverrides(data: unknown, source = 'widget overrides'): MappingFile {
+  let widgets = data;
+  if (Array.isArray(data)) {
+    const result = widgetListSchema.safeParse(data);
+    if (!result.success) {
+      throw invalidMappings(result.error, source);
+    }
+    widgets = Object.fromEntries(result.data.map(({ name, ...fields }) => [name, fields]));
+  }
+  return validateMappings({ widgets }, source);
+}
+
+function invalidMappings(error: z.ZodError, source: string): Error {
+  const issues = error.issues.map(
+    (issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`
+  );
+  return new Error(`Invalid ${source}:\n${issues.join('\n')}`);
+}
+
+/**
+ * Read, parse and validate a mapping file
+ */
+export function loadMappingFile(path: string): MappingFile {
+  return parseMappingFile(readFileSync(path, 'utf-8'), path);
+}
+
+function mergeOverrides(base: MappingOverrides, next: MappingOverrides): MappingOverrides {
+  const merged: MappingOverrides = { ...base };
+  if (next.include_unmapped !== undefined) {
+    merged.include_unmapped = next.include_unmapped;
+  }
+  for (const key of ['widgets', 'controls'] as const) {
+    const entries: Record<string, Record<string, unknown>> = { ...base[key] };
+    for (const [name, entry] of Object.entries(next[key] ?? {})) {
+      entries[name] = { ...entries[name], ...entry };
+    }
+    if (Object.keys(entries).length > 0) {
+      (merged as Record<string, unknown>)[key] = entries;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Merge mapping files; later files win, field by field
+ */
+export function mergeMappingFiles(...files: MappingFile[]): MappingFile {
+  const merged: MappingFile = {};
+  for (const file of files) {
+    Object.assign(merged, mergeOverrides(merged, file));
+    if (file.devices) {
+      const devices = { ...merged.devices };
+      for (const [key, overrides] of Object.entries(file.devices)) {
+        devices[key] = mergeOverrides(devices[key] ?? {}, overrides);
+      }
+      merged.devices = devices;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Apply one level of overrides to resolved mappings
+ */
+function applyOverrides(mappings: DeviceMappings, overrides: MappingOverrides): void {
+  if (overrides.include_unmapped !== undefined) {
+    mappings.includeUnmapped = overrides.include_unmapped;
+  }
+
+  for (const [name, { enabled, ...fields }] of Object.entries(overrides.widgets ?? {})) {
+    if (enabled === false) {
+      delete mappings.widgets[name];
+      mappings.disabled.add(name);
+      continue;
+    }
+    mappings.disabled.delete(name);
+    mappings.widgets[name] = { ...mappings.widgets[name], ...fields };
+  }
+
+  for (const [name, control] of Object.entries(overrides.controls ?? {})) {
+    const base = mappings.controls[name];
+    const pin = control.pin ?? base?.pin;
+    if (control.enabled === false) {
+      delete mappings.controls[name];
+      if (pin !== undefined) {
+        mappings.disabledPins.add(pin);
+      }
+      continue;
+    }
+    if (pin === undefined) {
+      continue;
+    }
+    mappings.disabledPins.delete(pin);
+    mappings.controls[name] = {
+      pin,
+      min: control.min ?? base?.min ?? 0,
+      step: control.step ?? base?.step ?? 1,
+      mode: control.mode ?? base?.mode ?? 'slider',
+      icon: control.icon ?? base?.icon,
+      maxWidgetName: control.max_widget ?? base?.maxWidgetName,
+      defaultMax: control.default_max ?? base?.defaultMax,
+      topic_id: control.topic_id ?? base?.topic_id ?? normalizeTopicName(name),
+      unit: control.unit ?? base?.unit,
+      device_class: control.device_class ?? base?.device_class,
+    };
+  }
+}
+
+/**
+ * Built-in mappings with user overrides applied
+ *
+ * @example
+ * ```typescript
+ * const mappings = new EntityMappings(loadMappingFile('/config/mappings.yaml'));
+ * const forCharger = mappings.forDevice(51627, 'Garage');
+ * ```
+ */
+export class EntityMappings {
+  readonly overrides: MappingFile;
+  private cache: Map<string, DeviceMappings> = new Map();
+
+  constructor(overrides: MappingFile = {}) {
+    this.overrides = overrides;
+  }
+
+  /**
+   * Mappings of a device: defaults, then global overrides, then the
+   * overrides keyed by the device ID, then those keyed by its name
+   */
+  forDevice(deviceId: number | string, name?: string): DeviceMappings {
+    const cacheKey = `${deviceId}\u0000${name ?? ''}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const mappings: DeviceMappings = {
+      widgets: { ...DEFAULT_MAPPINGS.widgets },
+      controls: { ...DEFAULT_MAPPINGS.controls },
+      includeUnmapped: DEFAULT_MAPPINGS.includeUnmapped,
+      disabled: new Set(DEFAULT_MAPPINGS.disabled),
+      disabledPins: new Set(DEFAULT_MAPPINGS.disabledPins),
+    };
+    applyOverrides(mappings, this.overrides);
+    const devices = this.overrides.devices ?? {};
+    for (const key of [String(deviceId), name]) {
+      if (key !== undefined && devices[key]) {
+        applyOverrides(mappings, devices[key]);
+      }
+    }
+
+    this.cache.set(cacheKey, mappings);
+    return mappings;
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Tests for the discovery registry and exact discovery removal
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { MqttClient } from 'mqtt';
+import { createMockDevicePage, logger, LogLevel } from 'eviqo-client-api';
+import { DiscoveryRegistry } from '../src/discovery-registry';
+import {
+  publishDeviceDiscovery,
+  removeDeviceDiscovery,
+  removeRecordedDiscovery,
+} from '../src/ha-discovery';
+
+/**
+ * MQTT client that records retained publishes by topic
+ */
+function createClient(): { client: MqttClient; retained: Map<string, string> } {
+  const retained = new Map<string, string>();
+  const client = {
+    publish: (topic: string, payload: string, _options: unknown, callback: () => void) => {
+      retained.set(topic, payload);
+      callback();
+    },
+  } as unknown as MqttClient;
+  return { client, retained };
+}
+
+function published(retained: Map<string, string>): string[] {
+  return [...retained].filter(([, payload]) => payload !== '').map(([topic]) => topic);
+}
+
+beforeAll(() => {
+  logger.setLevel(LogLevel.ERROR);
+});
+
+afterAll(() => {
+  logger.setLevel(LogLevel.INFO);
+});
+
+describe('DiscoveryRegistry', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eviqo-discovery-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should record, forget and clear components per node', () => {
+    const registry = new DiscoveryRegistry();
+    registry.record('eviqo_1', { platform: 'sensor', objectId: 'voltage' });
+    registry.record('eviqo_1', { platform: 'sensor', objectId: 'voltage' });
+    registry.record('eviqo_1', { platform: 'number', objectId: 'current_limit_control' });
+    registry.setMode('eviqo_1', 'entity');
+
+    expect(registry.components('eviqo_1')).toEqual([
+      { platform: 'sensor', objectId: 'voltage' },
+      { platform: 'number', objectId: 'current_limit_control' },
+    ]);
+    expect(registry.getMode('eviqo_1')).toBe('entity');
+
+    registry.forget('eviqo_1', { platform: 'sensor', objectId: 'voltage' });
+    expect(registry.components('eviqo_1')).toHaveLength(1);
+
+    registry.clear('eviqo_1');
+    expect(registry.has('eviqo_1')).toBe(false);
+    expect(registry.nodeIds()).toEqual([]);
+  });
+
+  it('should persist to its file', () => {
+    const path = join(dir, 'discovery.json');
+    const registry = new DiscoveryRegistry(path);
+    registry.record('eviqo_1', { platform: 'switch', objectId: 'charging' });
+    registry.setMode('eviqo_1', 'device');
+
+    const restored = new DiscoveryRegistry(path);
+    expect(restored.nodeIds()).toEqual(['eviqo_1']);
+    expect(restored.getMode('eviqo_1')).toBe('device');
+    expect(restored.components('eviqo_1')).toEqual([{ platform: 'switch', objectId: 'charging' }]);
+
+    restored.clear('eviqo_1');
+    expect(JSON.parse(readFileSync(path, 'utf-8'))).toEqual({});
+  });
+
+  it('should start empty from a missing or unreadable file', () => {
+    expect(new DiscoveryRegistry(join(dir, 'missing.json')).nodeIds()).toEqual([]);
+
+    const path = join(dir, 'discovery.json');
+    writeFileSync(path, 'not json');
+    expect(new DiscoveryRegistry(path).nodeIds()).toEqual([]);
+
+    writeFileSync(path, '{"eviqo_1":{"components":[{"platform":1}]},"eviqo_2":{}}');
+    const registry = new DiscoveryRegistry(path);
+    expect(registry.nodeIds()).toEqual(['eviqo_1']);
+    expect(registry.components('eviqo_1')).toEqual([]);
+  });
+});
+
+describe('discovery with a registry', () => {
+  const device = createMockDevicePage(51627);
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eviqo-discovery-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should remove exactly what an earlier run published', async () => {
+    const path = join(dir, 'discovery.json');
+    const { client, retained } = createClient();
+    await publishDeviceDiscovery(client, 'homeassistant', 'eviqo', device, undefined, {
+      registry: new DiscoveryRegistry(path),
+    });
+    const topics = published(retained);
+    expect(topics).toContain('homeassistant/number/eviqo_51627/current_limit_control/config');
+
+    // A later run knows nothing but the registry file
+    const registry = new DiscoveryRegistry(path);
+    await removeRecordedDiscovery(client, 'homeassistant', 'eviqo_51627', registry);
+    expect(published(retained)).toEqual([]);
+    expect(registry.has('eviqo_51627')).toBe(false);
+  });
+
+  it('should clear the configs of the previous mode when the mode changes', async () => {
+    const path = join(dir, 'discovery.json');
+    const { client, retained } = createClient();
+    await publishDeviceDiscovery(client, 'homeassistant', 'eviqo', device, undefined, {
+      mode: 'entity',
+      registry: new DiscoveryRegistry(path),
+    });
+
+    const registry = new DiscoveryRegistry(path);
+    await publishDeviceDiscovery(client, 'homeassistant', 'eviqo', device, undefined, {
+      mode: 'device',
+      registry,
+    });
+    expect(published(retained)).toEqual(['homeassistant/device/eviqo_51627/config']);
+    expect(registry.getMode('eviqo_51627')).toBe('device');
+
+    await removeDeviceDiscovery(client, 'homeassistant', device, undefined, {
+      mode: 'device',
+      registry,
+    });
+    expect(published(retained)).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for entity inference from datastream metadata
+ */
+
+import type { DisplayDataStream } from 'eviqo-client-api';
+import {
+  inferEntity,
+  isWritableEntity,
+  resolveStreamEntity,
+  selectOption,
+  selectValue,
+  streamUnits,
+} from '../src/inference';
+import { DEFAULT_MAPPINGS, DeviceMappings } from '../src/mappings';
+
+function stream(
+  name: string,
+  visualization: Partial<DisplayDataStream['visualization']> = {},
+  units = 'None'
+): DisplayDataStream {
+  return {
+    id: 1,
+    name,
+    pin: 30,
+    units,
+    visualization: { type: 'VALUE', value: '0', ...visualization },
+  };
+}
+
+describe('streamUnits', () => {
+  it('should prefer the visualization units and skip None', () => {
+    expect(streamUnits(stream('A', { units: 'kWh' }, 'Wh'))).toBe('kWh');
+    expect(streamUnits(stream('A', {}, 'V'))).toBe('V');
+    expect(streamUnits(stream('A', { units: 'None' }))).toBeUndefined();
+  });
+});
+
+describe('inferEntity', () => {
+  it('should infer sensors with device and state class from the units', () => {
+    expect(inferEntity(stream('Energy', { value: '1.5' }, 'kWh'))).toEqual({
+      component: 'sensor',
+      mapping: { unit: 'kWh', device_class: 'energy', state_class: 'total_increasing' },
+    });
+    expect(inferEntity(stream('Temp', {}, 'C')).mapping).toMatchObject({
+      unit: '°C',
+      device_class: 'temperature',
+    });
+  });
+
+  it('should only give numeric sensors of unknown units a state class', () => {
+    expect(inferEntity(stream('Count', { value: '12' })).mapping).toEqual({
+      state_class: 'measurement',
+    });
+    expect(inferEntity(stream('Mode', { value: 'eco' })).mapping).toEqual({});
+  });
+
+  it('should infer numbers from a range and selects from small menus', () => {
+    expect(inferEntity(stream('Limit', { min: 6, max: 48, step: 2 }, 'A'))).toEqual({
+      component: 'number',
+      mapping: { unit: 'A', device_class: 'current' },
+      min: 6,
+      max: 48,
+      step: 2,
+    });
+    expect(inferEntity(stream('Mode', { type: 'MENU', min: 0, max: 2 }))).toMatchObject({
+      component: 'select',
+      options: ['0', '1', '2'],
+    });
+    expect(inferEntity(stream('Level', { type: 'MENU', min: 0, max: 100 })).component).toBe(
+      'number'
+    );
+  });
+
+  it('should offer the menu labels of select entities', () => {
+    const labels = ['Off', 'Eco', 'Fast'];
+    expect(inferEntity(stream('Mode', { type: 'MENU', min: 0, max: 2, labels }))).toMatchObject({
+      component: 'select',
+      options: labels,
+      values: ['0', '1', '2'],
+    });
+    expect(
+      inferEntity(stream('Mode', { type: 'MENU', min: 0, max: 2, labels: ['Off', 'Eco'] })).options
+    ).toEqual(['0', '1', '2']);
+  });
+
+  it('should infer switches from switch widgets and on/off datastreams', () => {
+    expect(inferEntity(stream('Lock', { type: 'SWITCH' })).component).toBe('switch');
+    expect(inferEntity(stream('Schedule'), true).component).toBe('switch');
+  });
+});
+
+describe('resolveStreamEntity', () => {
+  const mappings: DeviceMappings = {
+    ...DEFAULT_MAPPINGS,
+    disabled: new Set(['Hidden']),
+    disabledPins: new Set(['31']),
+  };
+
+  it('should use the mapping of mapped widgets', () => {
+    expect(resolveStreamEntity(mappings, stream('Voltage', {}, 'V'))).toEqual({
+      component: 'sensor',
+      mapping: DEFAULT_MAPPINGS.widgets.Voltage,
+    });
+  });
+
+  it('should publish writable mapped widgets as controls with their mapping', () => {
+    const entity = resolveStreamEntity(mappings, stream('Power', { min: 0, max: 11 }));
+    expect(entity).toMatchObject({ component: 'number', mapping: DEFAULT_MAPPINGS.widgets.Power });
+    expect(isWritableEntity(entity)).toBe(true);
+  });
+
+  it('should skip disabled widgets, controls and disabled control pins', () => {
+    expect(resolveStreamEntity(mappings, stream('Hidden'))).toBeUndefined();
+    expect(resolveStreamEntity(mappings, stream('Current', { min: 6, max: 48 }))).toBeUndefined();
+    expect(resolveStreamEntity(mappings, { ...stream('Other'), pin: 31 })).toBeUndefined();
+  });
+
+  it('should only infer unmapped widgets when they are included', () => {
+    expect(resolveStreamEntity(mappings, stream('Other'))?.component).toBe('sensor');
+    expect(
+      resolveStreamEntity({ ...mappings, includeUnmapped: false }, stream('Other'))
+    ).toBeUndefined();
+    expect(isWritableEntity(undefined)).toBe(false);
+  });
+});
+
+describe('select options', () => {
+  const entity = inferEntity(
+    stream('Mode', { type: 'MENU', min: 1, max: 3, labels: ['Off', 'Eco', 'Fast'] })
+  );
+
+  it('should translate values to options and back', () => {
+    expect(selectOption(entity, '2')).toBe('Eco');
+    expect(selectOption(entity, '2.0')).toBe('Eco');
+    expect(selectValue(entity, 'Fast')).toBe('3');
+  });
+
+  it('should reject unknown options and pass other values through', () => {
+    expect(selectValue(entity, 'Turbo')).toBeUndefined();
+    expect(selectOption(entity, '9')).toBe('9');
+    const number = inferEntity(stream('Limit', { min: 6, max: 48 }));
+    expect(selectOption(number, '16')).toBe('16');
+    expect(selectValue(number, '16')).toBe('16');
+    expect(selectValue(undefined, '16')).toBe('16');
+  });
+});
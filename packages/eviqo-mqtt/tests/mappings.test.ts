@@ -0,0 +1,146 @@
+/**
+ * Tests for widget-to-entity mappings and mapping file validation
+ */
+
+import { createMockDevicePage, pageDatastreams } from 'eviqo-client-api';
+import { resolveStreamEntity } from '../src/inference';
+import {
+  EntityMappings,
+  getSensorMapping,
+  mergeMappingFiles,
+  parseMappingFile,
+  validateMappings,
+  validateWidgetOverrides,
+} from '../src/mappings';
+
+function pageStream(name: string) {
+  const stream = pageDatastreams(createMockDevicePage(51627)).find((s) => s.name === name);
+  if (!stream) {
+    throw new Error(`No datastream ${name}`);
+  }
+  return stream;
+}
+
+describe('validateMappings', () => {
+  it('should accept partial overrides of built-in controls', () => {
+    expect(() => validateMappings({ controls: { Current: { step: 2 } } })).not.toThrow();
+  });
+
+  it('should require a pin for new controls', () => {
+    expect(() => validateMappings({ controls: { Pump: { min: 0 } } })).toThrow(
+      /controls\.Pump\.pin: pin is required/
+    );
+    expect(() => validateMappings({ controls: { Pump: { enabled: false } } })).not.toThrow();
+  });
+
+  it('should let device sections override controls added globally', () => {
+    expect(() =>
+      validateMappings({
+        controls: { Pump: { pin: 12 } },
+        devices: { Garage: { controls: { Pump: { step: 5 } } } },
+      })
+    ).not.toThrow();
+  });
+
+  it('should not let a pin given in one device section count for another', () => {
+    expect(() =>
+      validateMappings({
+        devices: {
+          Garage: { controls: { Pump: { pin: 12 } } },
+          Barn: { controls: { Pump: { step: 5 } } },
+        },
+      })
+    ).toThrow(/devices\.Barn\.controls\.Pump\.pin: pin is required/);
+  });
+
+  it('should reject unknown fields and invalid topic ids', () => {
+    expect(() => validateMappings({ widgets: { Voltage: { colour: 'red' } } })).toThrow(
+      /Invalid mappings/
+    );
+    expect(() => validateMappings({ widgets: { Voltage: { topic_id: 'Line V' } } })).toThrow(
+      /widgets\.Voltage\.topic_id/
+    );
+  });
+});
+
+describe('validateWidgetOverrides', () => {
+  it('should accept overrides keyed by name or listed with a name', () => {
+    const expected = { widgets: { Voltage: { precision: 1 } } };
+    expect(validateWidgetOverrides({ Voltage: { precision: 1 } })).toEqual(expected);
+    expect(validateWidgetOverrides([{ name: 'Voltage', precision: 1 }])).toEqual(expected);
+  });
+
+  it('should reject list entries without an object or a name', () => {
+    expect(() => validateWidgetOverrides([null], 'EVIQO_WIDGET_OVERRIDES')).toThrow(
+      /Invalid EVIQO_WIDGET_OVERRIDES:\n {2}0: /
+    );
+    expect(() => validateWidgetOverrides([{ name: 'Voltage' }, { precision: 1 }])).toThrow(
+      /1\.name: /
+    );
+    expect(() => validateWidgetOverrides([{ name: '' }])).toThrow(
+      /0\.name: name must not be empty/
+    );
+  });
+});
+
+describe('parseMappingFile', () => {
+  it('should parse YAML and report syntax errors', () => {
+    expect(parseMappingFile('include_unmapped: false\n')).toEqual({ include_unmapped: false });
+    expect(parseMappingFile('')).toEqual({});
+    expect(() => parseMappingFile('widgets: [', 'test.yaml')).toThrow(/Invalid test\.yaml/);
+  });
+});
+
+describe('mergeMappingFiles', () => {
+  it('should merge field by field, later files winning', () => {
+    const merged = mergeMappingFiles(
+      { widgets: { Voltage: { precision: 1, icon: 'mdi:flash' } } },
+      { widgets: { Voltage: { precision: 0 } }, devices: { '51627': { include_unmapped: false } } }
+    );
+    expect(merged).toEqual({
+      widgets: { Voltage: { precision: 0, icon: 'mdi:flash' } },
+      devices: { '51627': { include_unmapped: false } },
+    });
+  });
+});
+
+describe('EntityMappings', () => {
+  it('should apply global, device ID and device name overrides in order', () => {
+    const mappings = new EntityMappings({
+      widgets: { Voltage: { precision: 0, icon: 'mdi:flash' } },
+      devices: {
+        '51627': { widgets: { Voltage: { precision: 1 } } },
+        Garage: { widgets: { Voltage: { icon: 'mdi:garage' } } },
+      },
+    });
+
+    expect(mappings.forDevice(51627, 'Garage').widgets.Voltage).toMatchObject({
+      device_class: 'voltage',
+      precision: 1,
+      icon: 'mdi:garage',
+    });
+    expect(mappings.forDevice(60002).widgets.Voltage.precision).toBe(0);
+  });
+
+  it('should drop disabled widgets', () => {
+    const mappings = new EntityMappings({ widgets: { Voltage: { enabled: false } } }).forDevice(1);
+    expect(getSensorMapping(mappings, 'Voltage')).toBeUndefined();
+    expect(resolveStreamEntity(mappings, pageStream('Voltage'))).toBeUndefined();
+  });
+
+  it('should not infer the widget of a disabled control', () => {
+    const mappings = new EntityMappings({ controls: { Current: { enabled: false } } }).forDevice(1);
+    expect(mappings.controls.Current).toBeUndefined();
+    expect(mappings.disabledPins.has('3')).toBe(true);
+    expect(resolveStreamEntity(mappings, pageStream('Current'))).toBeUndefined();
+  });
+
+  it('should restore a control enabled again by a device section', () => {
+    const mappings = new EntityMappings({
+      controls: { Current: { enabled: false } },
+      devices: { '51627': { controls: { Current: { pin: '3' } } } },
+    }).forDevice(51627);
+    expect(mappings.controls.Current).toMatchObject({ pin: '3', topic_id: 'current' });
+    expect(mappings.disabledPins.has('3')).toBe(false);
+  });
+});